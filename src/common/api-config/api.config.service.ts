@@ -1,5 +1,10 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { CacheBackendType } from '../caching/entities/cache.backend.type';
+import { LockScope } from '../locking/entities/lock.scope';
+import { HttpRecordingMode } from '../network/entities/http.recording.mode';
+import { ResiliencePolicy } from '../network/entities/resilience.policy';
+import { UrlSelectionStrategy } from '../network/entities/url.selection.strategy';
 
 @Injectable()
 export class ApiConfigService {
@@ -19,30 +24,75 @@ export class ApiConfigService {
   }
 
   getGatewayUrl(): string {
+    const gatewayUrls = this.getGatewayUrls();
+
+    return gatewayUrls[Math.floor(Math.random() * gatewayUrls.length)];
+  }
+
+  getGatewayUrls(): string[] {
     const gatewayUrls = this.configService.get<string[]>('urls.gateway');
     if (!gatewayUrls) {
       throw new Error('No gateway urls present');
     }
 
-    return gatewayUrls[Math.floor(Math.random() * gatewayUrls.length)];
+    return gatewayUrls;
   }
 
-  getElasticUrl(): string {
+  getElasticUrls(): string[] {
     const elasticUrls = this.configService.get<string[]>('urls.elastic');
     if (!elasticUrls) {
       throw new Error('No elastic urls present');
     }
 
-    return elasticUrls[Math.floor(Math.random() * elasticUrls.length)];
+    return elasticUrls;
   }
 
-  getMexUrl(): string {
-    const mexUrls = this.configService.get<string[]>('urls.mex');
-    if (mexUrls) {
-      return mexUrls[Math.floor(Math.random() * mexUrls.length)];
-    }
+  getMexUrls(): string[] {
+    return this.configService.get<string[]>('urls.mex') ?? [];
+  }
+
+  getElasticUrlSelectionStrategy(): UrlSelectionStrategy {
+    return this.configService.get<UrlSelectionStrategy>('elastic.urlSelection') ?? UrlSelectionStrategy.roundRobin;
+  }
+
+  getElasticHealthCheckIntervalInMilliseconds(): number {
+    return this.configService.get<number>('elastic.healthCheckIntervalMs') ?? 10000;
+  }
+
+  getGatewayUrlSelectionStrategy(): UrlSelectionStrategy {
+    return this.configService.get<UrlSelectionStrategy>('gateway.urlSelection') ?? UrlSelectionStrategy.roundRobin;
+  }
+
+  getGatewayHealthCheckIntervalInMilliseconds(): number {
+    return this.configService.get<number>('gateway.healthCheckIntervalMs') ?? 10000;
+  }
+
+  getGatewayMaxAttempts(): number {
+    return this.configService.get<number>('gateway.maxAttempts') ?? 3;
+  }
+
+  getGatewayRetryDelayInMilliseconds(): number {
+    return this.configService.get<number>('gateway.retryDelayMs') ?? 200;
+  }
+
+  getGatewayTimeoutInMilliseconds(component: string): number {
+    return this.configService.get<number>(`gateway.timeouts.${component}`) ?? this.configService.get<number>('gateway.timeoutMs') ?? 30000;
+  }
+
+  getGatewayCircuitBreakerFailureThreshold(): number {
+    return this.configService.get<number>('gateway.circuitBreaker.failureThreshold') ?? 10;
+  }
+
+  getGatewayCircuitBreakerResetTimeoutInMilliseconds(): number {
+    return this.configService.get<number>('gateway.circuitBreaker.resetTimeoutMs') ?? 30000;
+  }
+
+  getExportsMaxConcurrentRequests(): number {
+    return this.configService.get<number>('exports.maxConcurrentRequests') ?? 2;
+  }
 
-    return '';
+  getElasticMaxAttempts(): number {
+    return this.configService.get<number>('elastic.maxAttempts') ?? 2;
   }
 
   getEsdtContractAddress(): string {
@@ -129,6 +179,31 @@ export class ApiConfigService {
     return network;
   }
 
+  getCacheCompressionThresholdInBytes(): number {
+    let thresholdInKb = this.configService.get<number>('caching.compressionThresholdKb') ?? 64;
+
+    return thresholdInKb * 1024;
+  }
+
+  getCacheNamespace(): string {
+    let namespace = this.getNetwork();
+
+    let schemaVersion = this.configService.get<number>('caching.schemaVersion');
+    if (schemaVersion !== undefined) {
+      namespace += `:v${schemaVersion}`;
+    }
+
+    return namespace;
+  }
+
+  getCacheSnapshotPath(): string {
+    return this.configService.get<string>('caching.snapshotPath') ?? 'cache.snapshot.json';
+  }
+
+  getCacheBackendType(): CacheBackendType {
+    return this.configService.get<CacheBackendType>('caching.backend') ?? CacheBackendType.redis;
+  }
+
   getPoolLimit(): number {
     return this.configService.get<number>('caching.poolLimit') ?? 100;
   }
@@ -137,6 +212,49 @@ export class ApiConfigService {
     return this.configService.get<number>('caching.processTtl') ?? 60;
   }
 
+  getLocalCacheMaxEntries(): number {
+    return this.configService.get<number>('caching.localCacheMaxEntries') ?? 100000;
+  }
+
+  getLocalCacheMaxSizeInBytes(): number {
+    let maxSizeInMb = this.configService.get<number>('caching.localCacheMaxSizeMb') ?? 512;
+
+    return maxSizeInMb * 1024 * 1024;
+  }
+
+  getLockerScope(): LockScope {
+    return this.configService.get<LockScope>('locker.scope') ?? LockScope.cluster;
+  }
+
+  getLockerLeaseDurationInMilliseconds(): number {
+    return this.configService.get<number>('locker.leaseDurationMs') ?? 30000;
+  }
+
+  getHttpRecordingMode(): HttpRecordingMode {
+    return this.configService.get<HttpRecordingMode>('recording.mode') ?? HttpRecordingMode.disabled;
+  }
+
+  getHttpRecordingPath(): string {
+    return this.configService.get<string>('recording.path') ?? './recordings/';
+  }
+
+  getResiliencePolicy(name: string): ResiliencePolicy | undefined {
+    const policyConfig = this.configService.get<any>(`resilience.policies.${name}`);
+    if (!policyConfig) {
+      return undefined;
+    }
+
+    const policy = new ResiliencePolicy();
+    policy.timeout = policyConfig.timeoutMs ?? policy.timeout;
+    policy.maxAttempts = policyConfig.maxAttempts ?? policy.maxAttempts;
+    policy.retryDelay = policyConfig.retryDelayMs ?? policy.retryDelay;
+    policy.maxConcurrentRequests = policyConfig.maxConcurrentRequests ?? policy.maxConcurrentRequests;
+    policy.failureThreshold = policyConfig.failureThreshold ?? policy.failureThreshold;
+    policy.resetTimeout = policyConfig.resetTimeoutMs ?? policy.resetTimeout;
+
+    return policy;
+  }
+
   getAxiosTimeout(): number {
     return (
       this.configService.get<number>('keepAliveTimeout.downstream') ?? 61000
@@ -167,6 +285,10 @@ export class ApiConfigService {
     return this.configService.get<boolean>('flags.useTracing') ?? false;
   }
 
+  getPreloadCacheSnapshotFlag(): boolean {
+    return this.configService.get<boolean>('flags.preloadCacheSnapshot') ?? false;
+  }
+
   getUseVmQueryTracingFlag(): boolean {
     return this.configService.get<boolean>('flags.useVmQueryTracing') ?? false;
   }
@@ -334,6 +456,14 @@ export class ApiConfigService {
     return this.configService.get<boolean>('test.mockNodes');
   }
 
+  getMockElastic(): boolean | undefined {
+    return this.configService.get<boolean>('test.mockElastic');
+  }
+
+  getMockGateway(): boolean | undefined {
+    return this.configService.get<boolean>('test.mockGateway');
+  }
+
   getMockPath(): string | undefined {
     let mockPath = this.configService.get<string>('test.mockPath');
     if (mockPath === undefined) {
@@ -0,0 +1,26 @@
+export abstract class CacheBackend {
+  abstract get(key: string): Promise<string | null>;
+
+  abstract set(key: string, value: string, ttl: number): Promise<void>;
+
+  abstract mget(keys: string[]): Promise<(string | null)[]>;
+
+  abstract del(key: string): Promise<void>;
+
+  abstract scan(cursor: string, pattern: string, count: number): Promise<[ string, string[] ]>;
+
+  // executes the given redis-style commands (e.g. [ 'set', key, value, 'ex', ttl ]) atomically and returns their results
+  abstract multi(commands: any[][]): Promise<any[]>;
+
+  abstract flushDb(): Promise<void>;
+
+  // sets the value only if the key does not exist yet (SET NX PX) and, in the same atomic step, increments the counter key,
+  // returning the incremented counter or undefined when the key was already set
+  abstract setIfNotExistsAndIncrement(key: string, value: string, ttlInMilliseconds: number, counterKey: string): Promise<number | undefined>;
+
+  // extends the ttl of the key only if it still holds the given value
+  abstract extendIfEquals(key: string, value: string, ttlInMilliseconds: number): Promise<boolean>;
+
+  // deletes the key only if it still holds the given value
+  abstract deleteIfEquals(key: string, value: string): Promise<boolean>;
+}
@@ -1,19 +1,48 @@
-import { Body, Controller, Delete, Get, HttpException, HttpStatus, Inject, Param, Put, Query, UseGuards } from "@nestjs/common";
+import { Body, Controller, DefaultValuePipe, Delete, Get, HttpException, HttpStatus, Inject, Param, ParseIntPipe, Post, Put, Query, UseGuards } from "@nestjs/common";
 import { ClientProxy } from "@nestjs/microservices";
-import { ApiResponse } from "@nestjs/swagger";
+import { ApiQuery, ApiResponse } from "@nestjs/swagger";
 import { CachingService } from "src/common/caching/caching.service";
 import { JwtAdminGuard } from "src/utils/guards/jwt.admin.guard";
 import { JwtAuthenticateGuard } from "src/utils/guards/jwt.authenticate.guard";
+import { CacheScanResult } from "./entities/cache.scan.result";
 import { CacheValue } from "./entities/cache.value";
+import { CacheFamilyStats } from "./entities/cache.family.stats";
+import { MetricsService } from "../metrics/metrics.service";
+import { CacheSnapshotService } from "./cache.snapshot.service";
+import { ApiConfigService } from "../api-config/api.config.service";
+import { ParseArrayPipe } from "src/utils/pipes/parse.array.pipe";
+import { CacheDeleteJobService } from "./cache.delete.job.service";
+import { CacheDeleteJob } from "./entities/cache.delete.job";
 
 @Controller()
 export class CacheController {
+  private static readonly maxScanSize = 10000;
 
   constructor(
     private readonly cachingService: CachingService,
     @Inject('PUBSUB_SERVICE') private clientProxy: ClientProxy,
+    private readonly metricsService: MetricsService,
+    private readonly cacheSnapshotService: CacheSnapshotService,
+    private readonly apiConfigService: ApiConfigService,
+    private readonly cacheDeleteJobService: CacheDeleteJobService,
   ) { }
 
+  @UseGuards(JwtAuthenticateGuard, JwtAdminGuard)
+  @Get("/caching/stats")
+  @ApiResponse({
+    status: 200,
+    description: 'Cache hit / miss statistics per key family, sorted by miss cost',
+    type: CacheFamilyStats,
+    isArray: true
+  })
+  @ApiQuery({ name: 'size', description: 'Number of key families to retrieve', required: false })
+  async getCacheStats(
+    @Query('size', new DefaultValuePipe(25), ParseIntPipe) size: number,
+  ): Promise<CacheFamilyStats[]> {
+    let stats = this.metricsService.getCacheStats();
+
+    return stats.slice(0, size);
+  }
 
   @UseGuards(JwtAuthenticateGuard, JwtAdminGuard)
   @Get("/caching/:key")
@@ -42,29 +71,96 @@ export class CacheController {
   })
   async setCache(@Param('key') key: string, @Body() cacheValue: CacheValue) {
     await this.cachingService.setCacheRemote(key, cacheValue.value, cacheValue.ttl);
-    this.clientProxy.emit('deleteCacheKeys', [ key ]);
+    this.clientProxy.emit('deleteCacheKeys', [ this.cachingService.getNamespacedKey(key) ]);
   }
 
   @UseGuards(JwtAuthenticateGuard, JwtAdminGuard)
   @Delete("/caching/:key")
   @ApiResponse({
     status: 200,
-    description: 'Key has been deleted from cache'
+    description: 'Key has been deleted from cache, or for wildcard patterns the background job deleting the matching keys',
+    type: CacheDeleteJob
+  })
+  async delCache(@Param('key') key: string): Promise<CacheDeleteJob | undefined> {
+    if (key.includes('*')) {
+      return this.cacheDeleteJobService.start(key, async (keys) => {
+        this.clientProxy.emit('deleteCacheKeys', keys.map(key => this.cachingService.getNamespacedKey(key)));
+      });
+    }
+
+    await this.cachingService.deleteInCache(key);
+    this.clientProxy.emit('deleteCacheKeys', [ this.cachingService.getNamespacedKey(key) ]);
+    return undefined;
+  }
+
+  @UseGuards(JwtAuthenticateGuard, JwtAdminGuard)
+  @Get("/caching/jobs/:id")
+  @ApiResponse({
+    status: 200,
+    description: 'Progress of a background cache deletion job',
+    type: CacheDeleteJob
   })
   @ApiResponse({
     status: 404,
-    description: 'Key not found'
+    description: 'Job not found'
   })
-  async delCache(@Param('key') key: string) {
-    const keys = await this.cachingService.deleteInCache(key);
-    this.clientProxy.emit('deleteCacheKeys', keys);
+  getCacheDeleteJob(@Param('id') id: string): CacheDeleteJob {
+    const job = this.cacheDeleteJobService.getJob(id);
+    if (!job) {
+      throw new HttpException('Job not found', HttpStatus.NOT_FOUND);
+    }
+
+    return job;
   }
 
   @UseGuards(JwtAuthenticateGuard, JwtAdminGuard)
   @Get("/caching")
+  @ApiResponse({
+    status: 200,
+    description: 'One page of cache keys matching the given pattern',
+    type: CacheScanResult
+  })
+  @ApiQuery({ name: 'keys', description: 'Key pattern to match, wildcards allowed, with or without the network namespace', required: false })
+  @ApiQuery({ name: 'cursor', description: 'Cursor returned by the previous page', required: false })
+  @ApiQuery({ name: 'size', description: 'Approximate number of keys to scan, at most 10000', required: false })
   async getKeys(
-    @Query('keys') keys: string | undefined,
+    @Query('keys', new DefaultValuePipe('*')) keys: string,
+    @Query('cursor', new DefaultValuePipe('0')) cursor: string,
+    @Query('size', new DefaultValuePipe(1000), ParseIntPipe) size: number,
+  ): Promise<CacheScanResult> {
+    return await this.cachingService.getKeys(keys, cursor, Math.min(size, CacheController.maxScanSize));
+  }
+
+  @UseGuards(JwtAuthenticateGuard, JwtAdminGuard)
+  @Post("/caching/snapshot/export")
+  @ApiResponse({
+    status: 200,
+    description: 'The keys that have been written to the cache snapshot file',
+    type: String,
+    isArray: true
+  })
+  @ApiQuery({ name: 'keys', description: 'Comma-separated list of cache keys to include in the snapshot', required: false })
+  async exportSnapshot(
+    @Query('keys', ParseArrayPipe) keys: string[] | undefined,
   ): Promise<string[]> {
-    return await this.cachingService.getKeys(keys);
+    let snapshot = await this.cacheSnapshotService.exportSnapshot(this.apiConfigService.getCacheSnapshotPath(), keys);
+
+    return snapshot.entries.map(entry => entry.key);
+  }
+
+  @UseGuards(JwtAuthenticateGuard, JwtAdminGuard)
+  @Post("/caching/snapshot/import")
+  @ApiResponse({
+    status: 200,
+    description: 'The keys that have been imported from the cache snapshot file',
+    type: String,
+    isArray: true
+  })
+  async importSnapshot(): Promise<string[]> {
+    try {
+      return await this.cacheSnapshotService.importSnapshot(this.apiConfigService.getCacheSnapshotPath());
+    } catch (error: any) {
+      throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    }
   }
-}
\ No newline at end of file
+}
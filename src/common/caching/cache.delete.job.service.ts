@@ -0,0 +1,78 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { CachingService } from "./caching.service";
+import { CacheDeleteJob } from "./entities/cache.delete.job";
+import { CacheDeleteJobStatus } from "./entities/cache.delete.job.status";
+
+@Injectable()
+export class CacheDeleteJobService {
+  private static readonly maxRetainedJobs = 100;
+
+  private readonly logger: Logger;
+  // jobs only live in the process that runs them, so their progress is reported by the same instance
+  private readonly jobs: Map<string, CacheDeleteJob> = new Map();
+
+  constructor(
+    private readonly cachingService: CachingService,
+  ) {
+    this.logger = new Logger(CacheDeleteJobService.name);
+  }
+
+  start(pattern: string, onKeysDeleted?: (keys: string[]) => Promise<void>): CacheDeleteJob {
+    let runningJob = [...this.jobs.values()].find(job => job.pattern === pattern && job.status === CacheDeleteJobStatus.running);
+    if (runningJob) {
+      return runningJob;
+    }
+
+    let job = new CacheDeleteJob();
+    job.id = randomUUID();
+    job.pattern = pattern;
+    job.startedAt = Date.now();
+
+    this.jobs.set(job.id, job);
+    this.removeFinishedJobs();
+
+    // not awaited, the scan of a large keyspace outlives the request that started it
+    this.run(job, onKeysDeleted);
+
+    return job;
+  }
+
+  getJob(id: string): CacheDeleteJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  private async run(job: CacheDeleteJob, onKeysDeleted?: (keys: string[]) => Promise<void>): Promise<void> {
+    try {
+      await this.cachingService.deleteInCache(job.pattern, async (keys, totalDeleted) => {
+        job.deletedCount = totalDeleted;
+
+        if (onKeysDeleted) {
+          await onKeysDeleted(keys);
+        }
+      });
+
+      job.status = CacheDeleteJobStatus.completed;
+      this.logger.log(`Deleted ${job.deletedCount} keys matching '${job.pattern}'`);
+    } catch (error: any) {
+      job.status = CacheDeleteJobStatus.failed;
+      job.error = error?.message ?? String(error);
+      this.logger.error(`Error when deleting keys matching '${job.pattern}'`);
+      this.logger.error(error);
+    } finally {
+      job.finishedAt = Date.now();
+    }
+  }
+
+  private removeFinishedJobs() {
+    for (let job of this.jobs.values()) {
+      if (this.jobs.size <= CacheDeleteJobService.maxRetainedJobs) {
+        return;
+      }
+
+      if (job.status !== CacheDeleteJobStatus.running) {
+        this.jobs.delete(job.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ApiConfigService } from "../api-config/api.config.service";
+import { CachingService } from "./caching.service";
+import { CacheInfo } from "./entities/cache.info";
+import { CacheSnapshot } from "./entities/cache.snapshot";
+import { CacheSnapshotEntry } from "./entities/cache.snapshot.entry";
+const { readFile, writeFile } = require('fs').promises;
+
+@Injectable()
+export class CacheSnapshotService {
+  // keys that take several cron runs to be computed after a flush or in a new environment
+  static readonly defaultKeys: string[] = [
+    CacheInfo.Nodes.key,
+    CacheInfo.Providers.key,
+    CacheInfo.ProvidersWithStakeInformation.key,
+    CacheInfo.Identities.key,
+    CacheInfo.Keybases.key,
+    CacheInfo.IdentityProfilesKeybases.key,
+    CacheInfo.TokenAssets.key,
+  ];
+
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly apiConfigService: ApiConfigService,
+    private readonly cachingService: CachingService,
+  ) {
+    this.logger = new Logger(CacheSnapshotService.name);
+  }
+
+  async createSnapshot(keys: string[] = CacheSnapshotService.defaultKeys): Promise<CacheSnapshot> {
+    let snapshot = new CacheSnapshot();
+    snapshot.network = this.apiConfigService.getNetwork();
+    snapshot.namespace = this.apiConfigService.getCacheNamespace();
+    snapshot.timestamp = Math.round(Date.now() / 1000);
+
+    for (let key of keys) {
+      let { value, remainingTtl } = await this.cachingService.getCacheRemoteWithTtl(key);
+      if (value === undefined || value === null || remainingTtl <= 0) {
+        this.logger.log(`Skipping key '${key}' from cache snapshot since it is not present in cache`);
+        continue;
+      }
+
+      let entry = new CacheSnapshotEntry();
+      entry.key = key;
+      entry.ttl = remainingTtl;
+      entry.value = value;
+
+      snapshot.entries.push(entry);
+    }
+
+    return snapshot;
+  }
+
+  async exportSnapshot(path: string, keys: string[] = CacheSnapshotService.defaultKeys): Promise<CacheSnapshot> {
+    let snapshot = await this.createSnapshot(keys);
+
+    await writeFile(path, JSON.stringify(snapshot));
+    this.logger.log(`Exported ${snapshot.entries.length} cache keys to '${path}'`);
+
+    return snapshot;
+  }
+
+  async importSnapshot(path: string): Promise<string[]> {
+    let snapshot: CacheSnapshot = JSON.parse(await readFile(path, { encoding: 'utf8' }));
+
+    if (snapshot.version !== CacheSnapshot.currentVersion) {
+      throw new Error(`Unsupported cache snapshot version ${snapshot.version}, expected ${CacheSnapshot.currentVersion}`);
+    }
+
+    let network = this.apiConfigService.getNetwork();
+    if (snapshot.network !== network) {
+      throw new Error(`Cache snapshot was taken on network '${snapshot.network}' and cannot be imported on '${network}'`);
+    }
+
+    // the namespace also carries the cache schema version, so values of another namespace may be shaped differently
+    let namespace = this.apiConfigService.getCacheNamespace();
+    if (snapshot.namespace !== namespace) {
+      throw new Error(`Cache snapshot was taken in cache namespace '${snapshot.namespace}' and cannot be imported in '${namespace}'`);
+    }
+
+    let elapsed = Math.round(Date.now() / 1000) - snapshot.timestamp;
+
+    let importedKeys: string[] = [];
+    for (let entry of snapshot.entries) {
+      let ttl = entry.ttl - elapsed;
+      if (ttl <= 0) {
+        continue;
+      }
+
+      // values computed since the snapshot was taken are more recent and must not be overwritten
+      let existingValue = await this.cachingService.getCacheRemote(entry.key);
+      if (existingValue !== undefined && existingValue !== null) {
+        continue;
+      }
+
+      await this.cachingService.setCacheRemote(entry.key, entry.value, ttl);
+      importedKeys.push(entry.key);
+    }
+
+    this.logger.log(`Imported ${importedKeys.length} cache keys from '${path}' taken ${elapsed} seconds ago`);
+
+    return importedKeys;
+  }
+}
@@ -8,6 +8,13 @@ import { MicroserviceModule } from "../microservice/microservice.module";
 import { MetricsModule } from "../metrics/metrics.module";
 import { LocalCacheService } from "./local.cache.service";
 import { ProtocolModule } from "../protocol/protocol.module";
+import { ApiConfigService } from "../api-config/api.config.service";
+import { CacheBackend } from "./cache.backend";
+import { CacheBackendType } from "./entities/cache.backend.type";
+import { MemoryCacheBackend } from "./memory.cache.backend";
+import { RedisCacheBackend } from "./redis.cache.backend";
+import { CacheSnapshotService } from "./cache.snapshot.service";
+import { CacheDeleteJobService } from "./cache.delete.job.service";
 
 @Module({
   imports: [
@@ -19,10 +26,21 @@ import { ProtocolModule } from "../protocol/protocol.module";
     forwardRef(() => ProtocolModule)
   ],
   providers: [
-    CachingService, CacheConfigService, LocalCacheService,
+    CachingService, CacheConfigService, LocalCacheService, CacheSnapshotService, CacheDeleteJobService,
+    {
+      provide: CacheBackend,
+      useFactory: (apiConfigService: ApiConfigService) => {
+        if (apiConfigService.getCacheBackendType() === CacheBackendType.memory) {
+          return new MemoryCacheBackend();
+        }
+
+        return new RedisCacheBackend(apiConfigService.getRedisUrl());
+      },
+      inject: [ ApiConfigService ]
+    },
   ],
   exports: [
-    CachingService, CacheConfigService,
+    CachingService, CacheConfigService, CacheBackend, CacheSnapshotService, CacheDeleteJobService,
   ]
 })
 export class CachingModule { }
\ No newline at end of file
@@ -1,49 +1,90 @@
-import { Injectable, Logger } from "@nestjs/common";
+import { forwardRef, Inject, Injectable, Logger } from "@nestjs/common";
 import { ApiConfigService } from "../api-config/api.config.service";
-const { promisify } = require('util');
-import { createClient } from 'redis';
 import asyncPool from 'tiny-async-pool';
 import { PerformanceProfiler } from "../../utils/performance.profiler";
-import { BinaryUtils } from "src/utils/binary.utils";
-import { ShardTransaction } from "@elrondnetwork/transaction-processor";
 import { LocalCacheService } from "./local.cache.service";
+import { CachePriority } from "./entities/cache.priority";
+import { CacheInfo } from "./entities/cache.info";
+import { CacheScanResult } from "./entities/cache.scan.result";
+import { MetricsService } from "../metrics/metrics.service";
+import { CacheBackend } from "./cache.backend";
+import { gunzip, gzip } from "zlib";
+import { promisify } from "util";
+
+const asyncGzip = promisify(gzip);
+const asyncGunzip = promisify(gunzip);
 
 @Injectable()
 export class CachingService {
-  private client = createClient(6379, this.configService.getRedisUrl());
-  private asyncSet = promisify(this.client.set).bind(this.client);
-  private asyncGet = promisify(this.client.get).bind(this.client);
-  private asyncFlushDb = promisify(this.client.flushdb).bind(this.client);
-  private asyncMGet = promisify(this.client.mget).bind(this.client);
-  private asyncMulti = (commands: any[]) => {
-    const multi = this.client.multi(commands);
-    return promisify(multi.exec).call(multi);
-  };
-
-  private asyncDel = promisify(this.client.del).bind(this.client);
-  private asyncKeys = promisify(this.client.keys).bind(this.client);
+  // plain json values can never start with this prefix, which tells compressed entries apart
+  private static readonly compressedValuePrefix = 'gz:';
 
   private readonly logger: Logger
 
   constructor(
     private readonly configService: ApiConfigService,
     private readonly localCacheService: LocalCacheService,
+    private readonly cacheBackend: CacheBackend,
+    @Inject(forwardRef(() => MetricsService))
+    private readonly metricsService: MetricsService,
   ) {
     this.logger = new Logger(CachingService.name);
   }
 
-  public async getKeys(key: string | undefined) {
-    if (key) {
-      return await this.asyncKeys(key);
+  getNamespacedKey(key: string): string {
+    let prefix = this.getNamespacePrefix();
+    if (key.startsWith(prefix)) {
+      return key;
     }
+
+    return prefix + key;
+  }
+
+  removeNamespace(key: string): string {
+    let prefix = this.getNamespacePrefix();
+    if (!key.startsWith(prefix)) {
+      return key;
+    }
+
+    return key.substring(prefix.length);
+  }
+
+  isInNamespace(key: string): boolean {
+    return key.startsWith(this.getNamespacePrefix());
+  }
+
+  private getNamespacePrefix(): string {
+    return `${this.configService.getCacheNamespace()}:`;
+  }
+
+  public async getKeys(pattern: string = '*', cursor: string = '0', size: number = 1000): Promise<CacheScanResult> {
+    let [ nextCursor, keys ] = await this.cacheBackend.scan(cursor, this.getNamespacedKey(pattern), size);
+
+    return {
+      cursor: nextCursor,
+      keys: keys.map(key => this.removeNamespace(key)),
+    };
+  }
+
+  async scanKeys(pattern: string, handler: (keys: string[]) => Promise<void>, size: number = 1000): Promise<void> {
+    let cursor = '0';
+
+    do {
+      let result = await this.getKeys(pattern, cursor, size);
+      if (result.keys.length > 0) {
+        await handler(result.keys);
+      }
+
+      cursor = result.cursor;
+    } while (cursor !== '0');
   }
 
   public async setCacheRemote<T>(key: string, value: T, ttl: number = this.configService.getCacheTtl()): Promise<T> {
-    await this.asyncSet(key, JSON.stringify(value), 'EX', ttl ?? this.configService.getCacheTtl());
+    await this.cacheBackend.set(this.getNamespacedKey(key), await this.serialize(key, value), ttl ?? this.configService.getCacheTtl());
     return value;
   };
 
-  pendingPromises: { [key: string]: Promise<any> } = {};
+  pendingPromises: { [key: string]: Promise<any> | undefined } = {};
 
   private async executeWithPendingPromise<T>(key: string, promise: () => Promise<T>): Promise<T> {
     let pendingGetRemote = this.pendingPromises[key];
@@ -63,20 +104,20 @@ export class CachingService {
   }
 
   public async getCacheRemote<T>(key: string): Promise<T | undefined> {
-    let response = await this.executeWithPendingPromise<string | undefined>(`caching:get:${key}`, async () => await this.asyncGet(key));
+    let response = await this.executeWithPendingPromise<string | undefined>(`caching:get:${key}`, async () => await this.cacheBackend.get(this.getNamespacedKey(key)) ?? undefined);
     if (response === undefined) {
       return undefined;
     }
 
-    return JSON.parse(response);
+    return await this.deserialize(response);
   };
 
-  async setCacheLocal<T>(key: string, value: T, ttl: number = this.configService.getCacheTtl()): Promise<T> {
-    return await this.localCacheService.setCacheValue<T>(key, value, ttl);
+  async setCacheLocal<T>(key: string, value: T, ttl: number = this.configService.getCacheTtl(), priority: CachePriority = CacheInfo.getPriority(this.removeNamespace(key))): Promise<T> {
+    return await this.localCacheService.setCacheValue<T>(this.getNamespacedKey(key), value, ttl, priority);
   }
 
   async getCacheLocal<T>(key: string): Promise<T | undefined> {
-    return await this.localCacheService.getCacheValue<T>(key);
+    return await this.localCacheService.getCacheValue<T>(this.getNamespacedKey(key));
   }
 
   async refreshCacheLocal<T>(key: string, ttl: number = this.configService.getCacheTtl()): Promise<T | undefined> {
@@ -106,7 +147,7 @@ export class CachingService {
     return value;
   }
 
-  async batchProcess<IN, OUT>(payload: IN[], cacheKeyFunction: (element: IN) => string, handler: (generator: IN) => Promise<OUT>, ttl: number = this.configService.getCacheTtl(), skipCache: boolean = false): Promise<OUT[]> {
+  async batchProcess<IN, OUT>(payload: IN[], cacheKeyFunction: (element: IN) => string, handler: (generator: IN) => Promise<OUT>, ttl: number = this.configService.getCacheTtl(), skipCache: boolean = false, cacheTagsFunction?: (element: IN) => string[]): Promise<OUT[]> {
     let result: OUT[] = [];
 
     let chunks = this.getChunks(payload, 100);
@@ -117,7 +158,7 @@ export class CachingService {
       let retries = 0;
       while (true) {
         try {
-          let processedChunk = await this.batchProcessChunk(chunk, cacheKeyFunction, handler, ttl, skipCache);
+          let processedChunk = await this.batchProcessChunk(chunk, cacheKeyFunction, handler, ttl, skipCache, cacheTagsFunction);
           result.push(...processedChunk);
           break;
         } catch (error) {
@@ -134,7 +175,7 @@ export class CachingService {
     return result;
   }
 
-  async batchProcessChunk<IN, OUT>(payload: IN[], cacheKeyFunction: (element: IN) => string, handler: (generator: IN) => Promise<OUT>, ttl: number = this.configService.getCacheTtl(), skipCache: boolean = false): Promise<OUT[]> {
+  async batchProcessChunk<IN, OUT>(payload: IN[], cacheKeyFunction: (element: IN) => string, handler: (generator: IN) => Promise<OUT>, ttl: number = this.configService.getCacheTtl(), skipCache: boolean = false, cacheTagsFunction?: (element: IN) => string[]): Promise<OUT[]> {
     const keys = payload.map(element => cacheKeyFunction(element));
 
     let cached: OUT[] = [];
@@ -162,9 +203,10 @@ export class CachingService {
         keys: keys.filter((_, index) => missing.includes(index)),
         values,
         ttls: values.map((value) => (value ? ttl : Math.min(ttl, this.configService.getProcessTtl()))),
+        tags: cacheTagsFunction ? missing.map((index) => cacheTagsFunction(payload[index])) : undefined,
       };
   
-      await this.batchSetCache(params.keys, params.values, params.ttls);
+      await this.batchSetCache(params.keys, params.values, params.ttls, params.tags);
     }
 
     return keys.map((_, index) =>
@@ -186,13 +228,17 @@ export class CachingService {
     return ttl;
   };
 
-  async batchSetCache(keys: string[], values: any[], ttls: number[]) {
+  async batchSetCache(keys: string[], values: any[], ttls: number[], tags?: string[][]) {
     if (!ttls) {
       ttls = new Array(keys.length).fill(this.configService.getCacheTtl());
     }
 
     ttls = ttls.map(ttl => this.spreadTtl(ttl));
 
+    if (tags) {
+      await this.batchSetCacheTags(keys, tags, ttls);
+    }
+
     for (let [index, key] of keys.entries()) {
       let value = values[index];
       let ttl = ttls[index];
@@ -209,20 +255,22 @@ export class CachingService {
       }, 25)
     );
   
+    const serializedValues = await Promise.all(keys.map((key, index) => this.serialize(key, values[index])));
+
     const sets = [];
   
     for (const chunk of chunks) {
       const chunkKeys = chunk.map((element: any) => Object.keys(element)[0]);
-      const chunkValues = chunk.map((element: any) => values[Object.values(element)[0] as number]);
+      const chunkValues = chunk.map((element: any) => serializedValues[Object.values(element)[0] as number]);
   
       sets.push(
         ...chunkKeys.map((key: string, index: number) => {
-          return ['set', key, JSON.stringify(chunkValues[index]), 'ex', ttls[index]];
+          return ['set', this.getNamespacedKey(key), chunkValues[index], 'ex', ttls[index]];
         })
       );
     }
   
-    await this.asyncMulti(sets);
+    await this.cacheBackend.multi(sets);
   };
 
   async batchDelCache(keys: string[]) {
@@ -230,9 +278,9 @@ export class CachingService {
       this.deleteInCacheLocal(key);
     }
 
-    const dels = keys.map(key => ['del', key]);
+    const dels = keys.map(key => ['del', this.getNamespacedKey(key)]);
 
-    await this.asyncMulti(dels);
+    await this.cacheBackend.multi(dels);
   }
 
   private getChunks<T>(array: T[], size = 25): T[][] {
@@ -255,9 +303,9 @@ export class CachingService {
     const result = [];
   
     for (const chunkKeys of chunks) {
-      let chunkValues = await this.asyncMGet(chunkKeys);
+      let chunkValues: any[] = await this.cacheBackend.mget(chunkKeys.map(key => this.getNamespacedKey(key)));
   
-      chunkValues = chunkValues.map((value: any) => (value ? JSON.parse(value) : null));
+      chunkValues = await Promise.all(chunkValues.map(async (value: any) => (value ? await this.deserialize(value) : null)));
   
       result.push(...chunkValues);
     }
@@ -265,31 +313,78 @@ export class CachingService {
     return result;
   };
 
-  async getOrSetCache<T>(key: string, promise: () => Promise<T>, remoteTtl: number = this.configService.getCacheTtl(), localTtl: number | undefined = undefined): Promise<T> {
+  async getOrSetCache<T>(key: string, promise: () => Promise<T>, remoteTtl: number = this.configService.getCacheTtl(), localTtl: number | undefined = undefined, softTtl: number | undefined = undefined, tags: string[] = []): Promise<T> {
     if (!localTtl) {
-      localTtl = remoteTtl / 2;
+      localTtl = (softTtl ?? remoteTtl) / 2;
     }
 
     let profiler = new PerformanceProfiler(`vmQuery:${key}`);
 
+    let family = this.getKeyPrefix(key);
+
     let cachedValue = await this.getCacheLocal<T>(key);
     if (cachedValue !== undefined) {
       profiler.stop(`Local Cache hit for key ${key}`);
+      this.metricsService.incrementCacheHit(family, 'local');
       return cachedValue;
     }
 
-    let cached = await this.getCacheRemote<T>(key);
-    if (cached !== undefined && cached !== null) {
-      profiler.stop(`Remote Cache hit for key ${key}`);
+    if (softTtl) {
+      let { value: cached, remainingTtl } = await this.getCacheRemoteWithTtl<T>(key);
+      if (cached !== undefined && cached !== null) {
+        // the remote value is considered fresh as long as it was written less than softTtl seconds ago
+        let freshTtl = remainingTtl - (remoteTtl - softTtl);
+        if (freshTtl > 0) {
+          profiler.stop(`Remote Cache hit for key ${key}`);
+          this.metricsService.incrementCacheHit(family, 'remote');
+
+          await this.setCacheLocal<T>(key, cached, Math.min(localTtl, freshTtl));
+          return cached;
+        }
+
+        profiler.stop(`Stale Cache hit for key ${key}`);
+        this.metricsService.incrementCacheHit(family, 'stale');
+
+        // the stale value is kept locally no longer than it lives remotely, and is overwritten once the background refresh completes
+        await this.setCacheLocal<T>(key, cached, Math.min(localTtl, remainingTtl));
 
-      // we only set ttl to half because we don't know what the real ttl of the item is and we want it to work good in most scenarios
-      await this.setCacheLocal<T>(key, cached, localTtl);
-      return cached;
+        this.refreshCacheInBackground(key, promise, remoteTtl, localTtl, tags);
+        return cached;
+      }
+    } else {
+      let cached = await this.getCacheRemote<T>(key);
+      if (cached !== undefined && cached !== null) {
+        profiler.stop(`Remote Cache hit for key ${key}`);
+        this.metricsService.incrementCacheHit(family, 'remote');
+
+        // we only set ttl to half because we don't know what the real ttl of the item is and we want it to work good in most scenarios
+        await this.setCacheLocal<T>(key, cached, localTtl);
+        return cached;
+      }
     }
 
-    let value = await this.executeWithPendingPromise(`caching:set:${key}`, promise);
+    let isPending = this.pendingPromises[`caching:set:${key}`] !== undefined;
+
+    let value = await this.executeAndSetCache(key, promise, remoteTtl, localTtl, tags);
     profiler.stop(`Cache miss for key ${key}`);
 
+    if (isPending) {
+      this.metricsService.incrementCachePendingHit(family);
+    } else {
+      this.metricsService.setCacheMiss(family, profiler.duration);
+    }
+
+    return value;
+  }
+
+  private async executeAndSetCache<T>(key: string, promise: () => Promise<T>, remoteTtl: number, localTtl: number, tags: string[]): Promise<T> {
+    let value = await this.executeWithPendingPromise(`caching:set:${key}`, promise);
+
+    // values only kept in the local cache expire soon enough, so they are not worth a round trip to redis
+    if (tags.length > 0 && remoteTtl > 0) {
+      await this.setCacheTags(key, tags, Math.max(remoteTtl, localTtl));
+    }
+
     if (localTtl > 0) {
       await this.setCacheLocal<T>(key, value, localTtl);
     }
@@ -297,74 +392,157 @@ export class CachingService {
     if (remoteTtl > 0) {
       await this.setCacheRemote<T>(key, value, remoteTtl);
     }
+
     return value;
   }
 
+  private refreshCacheInBackground<T>(key: string, promise: () => Promise<T>, remoteTtl: number, localTtl: number, tags: string[]) {
+    if (this.pendingPromises[`caching:set:${key}`]) {
+      return;
+    }
+
+    this.executeAndSetCache(key, promise, remoteTtl, localTtl, tags).catch(error => {
+      this.logger.error(`Error when refreshing stale cache key '${key}' in background`);
+      this.logger.error(error);
+    });
+  }
+
+  async getCacheRemoteWithTtl<T>(key: string): Promise<{ value: T | undefined, remainingTtl: number }> {
+    let [ response, remainingTtl ] = await this.executeWithPendingPromise<[ string | null, number ]>(`caching:getWithTtl:${key}`, async () => await this.cacheBackend.multi([
+      [ 'get', this.getNamespacedKey(key) ],
+      [ 'ttl', this.getNamespacedKey(key) ],
+    ]) as [ string | null, number ]);
+
+    if (response === undefined || response === null) {
+      return { value: undefined, remainingTtl: 0 };
+    }
+
+    return { value: await this.deserialize(response), remainingTtl };
+  }
+
+  private async serialize(key: string, value: any): Promise<string> {
+    let serialized = JSON.stringify(value);
+
+    let threshold = this.configService.getCacheCompressionThresholdInBytes();
+    if (threshold <= 0 || serialized === undefined || serialized.length < threshold) {
+      return serialized;
+    }
+
+    let compressed = await asyncGzip(serialized);
+    this.metricsService.setCacheCompressionRatio(this.getKeyPrefix(key), Buffer.byteLength(serialized) / compressed.length);
+
+    return CachingService.compressedValuePrefix + compressed.toString('base64');
+  }
+
+  private async deserialize(response: string): Promise<any> {
+    // values written before compression was introduced, or below the threshold, are stored as plain json
+    if (!response.startsWith(CachingService.compressedValuePrefix)) {
+      return JSON.parse(response);
+    }
+
+    let decompressed = await asyncGunzip(Buffer.from(response.substring(CachingService.compressedValuePrefix.length), 'base64'));
+
+    return JSON.parse(decompressed.toString());
+  }
+
+  private getKeyPrefix(key: string): string {
+    return key.split(':')[0];
+  }
+
   async deleteInCacheLocal(key: string) {
-    this.localCacheService.deleteCacheKey(key);
+    this.localCacheService.deleteCacheKey(this.getNamespacedKey(key));
   }
 
-  async deleteInCache(key: string): Promise<string[]> {
-    let invalidatedKeys = [];
+  // wildcard patterns are scanned and deleted one batch at a time, so only the number of deleted keys is kept around
+  async deleteInCache(key: string, onKeysDeleted?: (keys: string[], totalDeleted: number) => Promise<void>): Promise<number> {
+    let totalDeleted = 0;
 
     if (key.includes('*')) {
-      let allKeys = await this.asyncKeys(key);
-      for (let key of allKeys) {
-        this.localCacheService.deleteCacheKey(key);
-        await this.asyncDel(key);
-        invalidatedKeys.push(key);
-      }
+      await this.scanKeys(key, async (keys) => {
+        await this.batchDelCache(keys);
+        totalDeleted += keys.length;
+
+        if (onKeysDeleted) {
+          await onKeysDeleted(keys, totalDeleted);
+        }
+      });
     } else {
-      this.localCacheService.deleteCacheKey(key);
-      await this.asyncDel(key);
-      invalidatedKeys.push(key);
+      this.localCacheService.deleteCacheKey(this.getNamespacedKey(key));
+      await this.cacheBackend.del(this.getNamespacedKey(key));
+      totalDeleted++;
+
+      if (onKeysDeleted) {
+        await onKeysDeleted([ key ], totalDeleted);
+      }
     }
 
-    return invalidatedKeys;
+    return totalDeleted;
   }
 
-  async tryInvalidateTokenProperties(transaction: ShardTransaction): Promise<string[]> {
-    if (transaction.receiver !== this.configService.getEsdtContractAddress()) {
-      return [];
-    }
+  async setCacheTags(key: string, tags: string[], ttl: number): Promise<void> {
+    await this.batchSetCacheTags([ key ], [ tags ], [ ttl ]);
+  }
 
-    let transactionFuncName = transaction.getDataFunctionName();
+  async batchSetCacheTags(keys: string[], tags: string[][], ttls: number[]): Promise<void> {
+    let commands = [];
+    let tagTtls: { [ tag: string ]: number } = {};
 
-    if (transactionFuncName === 'controlChanges') {
-      let args = transaction.getDataArgs();
-      if (args && args.length > 0) {
-        let tokenIdentifier = BinaryUtils.hexToString(args[0]);
-        this.logger.log(`Invalidating token properties for token ${tokenIdentifier}`);
-        return await this.deleteInCache(`tokenProperties:${tokenIdentifier}`);
+    for (let [index, key] of keys.entries()) {
+      for (let tag of tags[index] ?? []) {
+        commands.push([ 'sadd', this.getTagKey(tag), key ]);
+        tagTtls[tag] = Math.max(tagTtls[tag] ?? 0, ttls[index]);
       }
     }
 
-    return [];
+    if (commands.length === 0) {
+      return;
+    }
+
+    let tagKeys = Object.keys(tagTtls);
+
+    let results = await this.cacheBackend.multi([
+      ...commands,
+      ...tagKeys.map(tag => [ 'ttl', this.getTagKey(tag) ]),
+    ]);
+
+    // a tag must live at least as long as the longest lived key registered under it, so its ttl is only ever extended
+    let remainingTtls: number[] = results.slice(commands.length);
+    let expireCommands = tagKeys
+      .filter((tag, index) => remainingTtls[index] < tagTtls[tag])
+      .map(tag => [ 'expire', this.getTagKey(tag), tagTtls[tag] ]);
+
+    if (expireCommands.length > 0) {
+      await this.cacheBackend.multi(expireCommands);
+    }
   }
 
-  async tryInvalidateTokensOnAccount(transaction: ShardTransaction): Promise<string[]> {
-    if (transaction.sender !== this.configService.getEsdtContractAddress()) {
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    if (tags.length === 0) {
       return [];
     }
 
-    return await this.deleteInCache(`tokens:${transaction.receiver}`);
-  }
+    let results = await this.cacheBackend.multi(tags.selectMany(tag => [
+      [ 'smembers', this.getTagKey(tag) ],
+      [ 'del', this.getTagKey(tag) ],
+    ]));
 
-  async tryInvalidateTokenBalance(transaction: ShardTransaction): Promise<string[]> {
-    let transactionFuncName = transaction.getDataFunctionName();
-    if (transactionFuncName === 'ESDTTransfer') {
-      let invalidatedKeys = [];
-      let invalidated = await this.deleteInCache(`tokens:${transaction.sender}`);
-      invalidatedKeys.push(...invalidated);
+    let keys: string[] = results
+      .filter((_: any, index: number) => index % 2 === 0)
+      .selectMany((members: string[]) => members)
+      .distinct();
 
-      invalidated = await this.deleteInCache(`tokens:${transaction.receiver}`);
-      invalidatedKeys.push(...invalidated);
+    if (keys.length > 0) {
+      await this.batchDelCache(keys);
     }
 
-    return [];
+    return keys;
+  }
+
+  private getTagKey(tag: string): string {
+    return this.getNamespacedKey(`tag:${tag}`);
   }
 
   async flushDb(): Promise<any> {
-    await this.asyncFlushDb();
+    await this.cacheBackend.flushDb();
   }
 }
\ No newline at end of file
@@ -0,0 +1,4 @@
+export enum CacheBackendType {
+  redis = 'redis',
+  memory = 'memory',
+}
@@ -0,0 +1,5 @@
+export enum CacheDeleteJobStatus {
+  running = 'running',
+  completed = 'completed',
+  failed = 'failed',
+}
@@ -0,0 +1,25 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { CacheDeleteJobStatus } from "./cache.delete.job.status";
+
+export class CacheDeleteJob {
+  @ApiProperty()
+  id: string = '';
+
+  @ApiProperty({ description: 'Key pattern whose matching keys are being deleted' })
+  pattern: string = '';
+
+  @ApiProperty({ enum: CacheDeleteJobStatus })
+  status: CacheDeleteJobStatus = CacheDeleteJobStatus.running;
+
+  @ApiProperty({ description: 'Number of keys deleted so far' })
+  deletedCount: number = 0;
+
+  @ApiProperty()
+  startedAt: number = 0;
+
+  @ApiProperty({ required: false })
+  finishedAt: number | undefined = undefined;
+
+  @ApiProperty({ required: false })
+  error: string | undefined = undefined;
+}
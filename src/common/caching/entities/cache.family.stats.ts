@@ -0,0 +1,30 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class CacheFamilyStats {
+  @ApiProperty({ description: 'Key prefix before the first colon, e.g. txCount' })
+  family: string = '';
+
+  @ApiProperty()
+  localHits: number = 0;
+
+  @ApiProperty()
+  remoteHits: number = 0;
+
+  @ApiProperty({ description: 'Stale values served while being refreshed in background' })
+  staleHits: number = 0;
+
+  @ApiProperty({ description: 'Requests deduplicated against an in-flight computation of the same key' })
+  pendingHits: number = 0;
+
+  @ApiProperty()
+  misses: number = 0;
+
+  @ApiProperty()
+  hitRatio: number = 0;
+
+  @ApiProperty({ description: 'Total time in milliseconds spent computing missing values' })
+  missCost: number = 0;
+
+  @ApiProperty({ description: 'Average time in milliseconds spent computing a missing value' })
+  averageMissDuration: number = 0;
+}
@@ -1,23 +1,55 @@
 import { Constants } from "src/utils/constants";
+import { CachePriority } from "./cache.priority";
+import { CacheTag } from "./cache.tag";
 
 export class CacheInfo {
   key: string = "";
   ttl: number = Constants.oneSecond() * 6;
+  // when set, values older than softTtl are served stale while being refreshed in background, until ttl expires
+  softTtl?: number;
+  priority?: CachePriority;
+  // tags under which the key is registered when written, so that it can be invalidated together with related keys
+  tags?: string[];
+
+  private static priorities: { [ key: string ]: CachePriority } | undefined;
+
+  static getPriority(key: string): CachePriority {
+    if (!CacheInfo.priorities) {
+      CacheInfo.priorities = {};
+
+      for (let cacheInfo of Object.values(CacheInfo)) {
+        if (cacheInfo && cacheInfo.key && cacheInfo.priority) {
+          CacheInfo.priorities[cacheInfo.key] = cacheInfo.priority;
+        }
+      }
+    }
+
+    return CacheInfo.priorities[key] ?? CachePriority.normal;
+  }
 
   static Nodes: CacheInfo = {
     key: 'nodes',
-    ttl: Constants.oneHour()
+    ttl: Constants.oneDay(),
+    softTtl: Constants.oneHour(),
+    priority: CachePriority.high
   }
 
   static NumShards: CacheInfo = {
     key: 'numShards',
-    ttl: Constants.oneWeek()
+    ttl: Constants.oneWeek(),
+    priority: CachePriority.high
   }
 
 
   static GenesisTimestamp: CacheInfo = {
     key: 'genesisTimestamp',
-    ttl: Constants.oneWeek()
+    ttl: Constants.oneWeek(),
+    priority: CachePriority.high
+  }
+
+  static EpochEndTimestamp: CacheInfo = {
+    key: 'epochEndTimestamp',
+    ttl: Constants.oneMinute(),
   }
 
   static ActiveShards: CacheInfo = {
@@ -27,27 +59,33 @@ export class CacheInfo {
 
   static AllEsdtTokens: CacheInfo = {
     key: 'allEsdtTokens',
-    ttl: Constants.oneHour()
+    ttl: Constants.oneHour(),
+    priority: CachePriority.high
   }
 
   static Identities: CacheInfo = {
     key: 'identities',
-    ttl: Constants.oneMinute() * 15
+    ttl: Constants.oneMinute() * 15,
+    priority: CachePriority.high
   }
 
   static Providers: CacheInfo = {
     key: 'providers',
-    ttl: Constants.oneHour()
+    ttl: Constants.oneHour(),
+    priority: CachePriority.high
   }
 
   static ProvidersWithStakeInformation: CacheInfo = {
     key: 'providersWithStakeInformation',
-    ttl: Constants.oneHour()
+    ttl: Constants.oneDay(),
+    softTtl: Constants.oneHour(),
+    priority: CachePriority.high
   }
 
   static Keybases: CacheInfo = {
     key: 'keybases',
-    ttl: Constants.oneHour()
+    ttl: Constants.oneHour(),
+    priority: CachePriority.high
   }
 
   static KeybaseConfirmation(keybase: string): CacheInfo {
@@ -60,13 +98,22 @@ export class CacheInfo {
   static TxCount(address: string): CacheInfo {
     return {
       key: `txCount:${address}`,
-      ttl: Constants.oneSecond() * 30
+      ttl: Constants.oneSecond() * 30,
+      tags: [ CacheTag.Address(address) ],
+    }
+  }
+
+  static AddressEsdts(address: string): CacheInfo {
+    return {
+      key: `address:${address}:esdts`,
+      ttl: Constants.oneSecond() * 6,
     }
   }
 
   static IdentityProfilesKeybases: CacheInfo = {
     key: 'identityProfilesKeybases',
-    ttl: Constants.oneHour()
+    ttl: Constants.oneHour(),
+    priority: CachePriority.high
   }
 
   static IdentityProfile(key: string): CacheInfo {
@@ -83,7 +130,9 @@ export class CacheInfo {
 
   static Economics: CacheInfo = {
     key: 'economics',
-    ttl:  Constants.oneMinute() * 10
+    ttl: Constants.oneHour(),
+    softTtl: Constants.oneMinute() * 10,
+    priority: CachePriority.high
   }
 
   static Top25Accounts: CacheInfo = {
@@ -115,12 +164,15 @@ export class CacheInfo {
   static TokenAssets: CacheInfo = {
     key: 'tokenAssets',
     ttl: Constants.oneDay(),
+    priority: CachePriority.high
   }
 
   static EsdtProperties(identifier: string): CacheInfo {
     return {
       key: `esdt:${identifier}`,
       ttl: Constants.oneDay(),
+      // properties are fetched the same way for fungible tokens and for nft collections
+      tags: [ CacheTag.Token(identifier), CacheTag.Collection(identifier) ],
     }
   }
 
@@ -0,0 +1,5 @@
+export enum CachePriority {
+  low = 'low',
+  normal = 'normal',
+  high = 'high',
+}
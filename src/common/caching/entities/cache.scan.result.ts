@@ -0,0 +1,9 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class CacheScanResult {
+  @ApiProperty({ description: 'Cursor to pass for retrieving the next page of keys. A value of 0 means the scan is complete' })
+  cursor: string = '0';
+
+  @ApiProperty()
+  keys: string[] = [];
+}
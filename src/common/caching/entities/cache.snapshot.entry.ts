@@ -0,0 +1,12 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class CacheSnapshotEntry {
+  @ApiProperty()
+  key: string = '';
+
+  @ApiProperty({ description: 'Remaining ttl in seconds at the time the snapshot was taken' })
+  ttl: number = 0;
+
+  @ApiProperty()
+  value: any;
+}
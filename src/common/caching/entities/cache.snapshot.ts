@@ -0,0 +1,21 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { CacheSnapshotEntry } from "./cache.snapshot.entry";
+
+export class CacheSnapshot {
+  static readonly currentVersion: number = 2;
+
+  @ApiProperty()
+  version: number = CacheSnapshot.currentVersion;
+
+  @ApiProperty({ description: 'Network the snapshot was taken from, e.g. mainnet' })
+  network: string = '';
+
+  @ApiProperty({ description: 'Cache namespace the keys of the snapshot belong to' })
+  namespace: string = '';
+
+  @ApiProperty({ description: 'Unix timestamp at which the snapshot was taken' })
+  timestamp: number = 0;
+
+  @ApiProperty({ type: CacheSnapshotEntry, isArray: true })
+  entries: CacheSnapshotEntry[] = [];
+}
@@ -0,0 +1,17 @@
+export class CacheTag {
+  static Address(address: string): string {
+    return `address:${address}`;
+  }
+
+  static Owner(address: string): string {
+    return `owner:${address}`;
+  }
+
+  static Token(identifier: string): string {
+    return `token:${identifier}`;
+  }
+
+  static Collection(collection: string): string {
+    return `collection:${collection}`;
+  }
+}
@@ -0,0 +1,11 @@
+export class CachedResponse {
+  value: any;
+
+  etag: string = '';
+
+  // unix timestamp (seconds) after which the response is no longer fresh
+  expires: number = 0;
+
+  // cursor for the next page, sent back through a response header and therefore not part of the value
+  cursor: string | undefined = undefined;
+}
@@ -1,5 +1,11 @@
+import { CachePriority } from "./cache.priority";
+
 export class LocalCacheValue {
   value: any;
 
   expires: number = 0;
-}
\ No newline at end of file
+
+  size: number = 0;
+
+  priority: CachePriority = CachePriority.normal;
+}
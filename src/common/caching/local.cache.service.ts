@@ -1,45 +1,143 @@
-import { Injectable } from "@nestjs/common";
+import { forwardRef, Inject, Injectable, Logger } from "@nestjs/common";
 import { PerformanceProfiler } from "src/utils/performance.profiler";
+import { ApiConfigService } from "../api-config/api.config.service";
+import { MetricsService } from "../metrics/metrics.service";
+import { CachePriority } from "./entities/cache.priority";
 import { LocalCacheValue } from "./entities/local.cache.value";
 
 @Injectable()
 export class LocalCacheService {
-  private static readonly dictionary: { [ key: string ]: LocalCacheValue } = {};
+  // eviction order: entries with lower priority are evicted first, least recently used first within the same priority
+  private static readonly evictionOrder: CachePriority[] = [ CachePriority.low, CachePriority.normal, CachePriority.high ];
+
+  private static readonly dictionaries: { [ priority: string ]: Map<string, LocalCacheValue> } = {
+    [CachePriority.low]: new Map<string, LocalCacheValue>(),
+    [CachePriority.normal]: new Map<string, LocalCacheValue>(),
+    [CachePriority.high]: new Map<string, LocalCacheValue>(),
+  };
 
   private static lastPruneTime: number = new Date().getTime();
 
-  setCacheValue<T>(key: string, value: T, ttl: number): T {
+  private static totalSize: number = 0;
+
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly apiConfigService: ApiConfigService,
+    @Inject(forwardRef(() => MetricsService))
+    private readonly metricsService: MetricsService,
+  ) {
+    this.logger = new Logger(LocalCacheService.name);
+  }
+
+  setCacheValue<T>(key: string, value: T, ttl: number, priority: CachePriority = CachePriority.normal): T {
     if (this.needsPrune()) {
       this.prune();
     }
 
+    this.deleteCacheKey(key);
+
+    let size = this.estimateSize(value);
+    if (size > this.apiConfigService.getLocalCacheMaxSizeInBytes()) {
+      this.logger.log(`Skipping local cache for key '${key}' since its estimated size of ${size} bytes exceeds the local cache size limit`);
+      return value;
+    }
+
     let expires = new Date().getTime() + (ttl * 1000);
 
-    LocalCacheService.dictionary[key] = {
+    LocalCacheService.dictionaries[priority].set(key, {
       value,
-      expires
-    };
+      expires,
+      size,
+      priority,
+    });
+
+    LocalCacheService.totalSize += size;
+
+    this.evict();
+    this.updateMetrics();
 
     return value;
   }
 
   getCacheValue<T>(key: string): T | undefined {
-    let cacheValue = LocalCacheService.dictionary[key];
-    if (!cacheValue) {
-      return undefined;
-    }
+    for (let priority of LocalCacheService.evictionOrder) {
+      let dictionary = LocalCacheService.dictionaries[priority];
 
-    let now = new Date().getTime();
-    if (cacheValue.expires < now) {
-      delete LocalCacheService.dictionary[key];
-      return undefined;
-    }
+      let cacheValue = dictionary.get(key);
+      if (!cacheValue) {
+        continue;
+      }
+
+      let now = new Date().getTime();
+      if (cacheValue.expires < now) {
+        this.deleteCacheKey(key);
+        return undefined;
+      }
+
+      // re-inserting the key moves it to the most recently used position
+      dictionary.delete(key);
+      dictionary.set(key, cacheValue);
 
       return cacheValue.value;
+    }
+
+    return undefined;
   }
 
   deleteCacheKey(key: string) {
-    delete LocalCacheService.dictionary[key];
+    for (let priority of LocalCacheService.evictionOrder) {
+      let dictionary = LocalCacheService.dictionaries[priority];
+
+      let cacheValue = dictionary.get(key);
+      if (cacheValue) {
+        dictionary.delete(key);
+        LocalCacheService.totalSize -= cacheValue.size;
+      }
+    }
+  }
+
+  getEntriesCount(): number {
+    return LocalCacheService.evictionOrder
+      .map(priority => LocalCacheService.dictionaries[priority].size)
+      .reduce((previous, current) => previous + current, 0);
+  }
+
+  getTotalSize(): number {
+    return LocalCacheService.totalSize;
+  }
+
+  private evict() {
+    let maxEntries = this.apiConfigService.getLocalCacheMaxEntries();
+    let maxSize = this.apiConfigService.getLocalCacheMaxSizeInBytes();
+
+    while (this.getEntriesCount() > maxEntries || LocalCacheService.totalSize > maxSize) {
+      let priority = LocalCacheService.evictionOrder.find(priority => LocalCacheService.dictionaries[priority].size > 0);
+      if (!priority) {
+        return;
+      }
+
+      let dictionary = LocalCacheService.dictionaries[priority];
+
+      let [ key, cacheValue ] = dictionary.entries().next().value;
+      dictionary.delete(key);
+      LocalCacheService.totalSize -= cacheValue.size;
+
+      this.metricsService.incrementLocalCacheEvictions(priority);
+    }
+  }
+
+  private estimateSize(value: any): number {
+    try {
+      return JSON.stringify(value)?.length ?? 0;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  private updateMetrics() {
+    this.metricsService.setLocalCacheEntries(this.getEntriesCount());
+    this.metricsService.setLocalCacheSize(LocalCacheService.totalSize);
   }
 
   needsPrune() {
@@ -52,17 +150,23 @@ export class LocalCacheService {
 
     let profiler = new PerformanceProfiler();
 
-    let keys = Object.keys(LocalCacheService.dictionary);
+    let countBefore = this.getEntriesCount();
 
-    for (let key of keys) {
-      let value = LocalCacheService.dictionary[key];
-      if (value.expires < now) {
-        delete LocalCacheService.dictionary[key];
+    for (let priority of LocalCacheService.evictionOrder) {
+      let dictionary = LocalCacheService.dictionaries[priority];
+
+      for (let [ key, value ] of dictionary.entries()) {
+        if (value.expires < now) {
+          dictionary.delete(key);
+          LocalCacheService.totalSize -= value.size;
+        }
       }
     }
 
-    let keysAfter = Object.keys(LocalCacheService.dictionary);
+    let countAfter = this.getEntriesCount();
+
+    this.updateMetrics();
 
-    profiler.stop(`Local cache prune. Deleted ${keys.length - keysAfter.length} keys. Total keys in cache: ${keysAfter.length}`, true);
+    profiler.stop(`Local cache prune. Deleted ${countBefore - countAfter} keys. Total keys in cache: ${countAfter}`, true);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,211 @@
+import { CacheBackend } from "./cache.backend";
+
+class MemoryCacheEntry {
+  value: string | Set<string> = '';
+
+  // unix timestamp in milliseconds, undefined when the entry never expires
+  expires: number | undefined = undefined;
+}
+
+export class MemoryCacheBackend extends CacheBackend {
+  // shared between all the apps bootstrapped in the same process, just like a redis instance would be
+  private static readonly entries: Map<string, MemoryCacheEntry> = new Map<string, MemoryCacheEntry>();
+
+  async get(key: string): Promise<string | null> {
+    return this.getString(key);
+  }
+
+  async set(key: string, value: string, ttl: number): Promise<void> {
+    this.setString(key, value, ttl);
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    return keys.map(key => this.getString(key));
+  }
+
+  async del(key: string): Promise<void> {
+    MemoryCacheBackend.entries.delete(key);
+  }
+
+  async scan(cursor: string, pattern: string, count: number): Promise<[ string, string[] ]> {
+    let regex = this.getPatternRegex(pattern);
+
+    // the cursor is the offset in the sorted key list, which keeps the iteration stable across calls
+    let keys = [...MemoryCacheBackend.entries.keys()].filter(key => this.getEntry(key) !== undefined).sort();
+
+    let offset = parseInt(cursor);
+    let nextOffset = offset + count;
+
+    let matchingKeys = keys.slice(offset, nextOffset).filter(key => regex.test(key));
+    let nextCursor = nextOffset >= keys.length ? '0' : nextOffset.toString();
+
+    return [ nextCursor, matchingKeys ];
+  }
+
+  async multi(commands: any[][]): Promise<any[]> {
+    return commands.map(command => this.execute(command));
+  }
+
+  async flushDb(): Promise<void> {
+    MemoryCacheBackend.entries.clear();
+  }
+
+  async setIfNotExistsAndIncrement(key: string, value: string, ttlInMilliseconds: number, counterKey: string): Promise<number | undefined> {
+    if (this.getEntry(key)) {
+      return undefined;
+    }
+
+    MemoryCacheBackend.entries.set(key, { value, expires: Date.now() + ttlInMilliseconds });
+
+    let counterEntry = this.getEntry(counterKey);
+    let counter = (counterEntry && typeof counterEntry.value === 'string' ? parseInt(counterEntry.value) : 0) + 1;
+
+    MemoryCacheBackend.entries.set(counterKey, { value: counter.toString(), expires: counterEntry?.expires });
+    return counter;
+  }
+
+  async extendIfEquals(key: string, value: string, ttlInMilliseconds: number): Promise<boolean> {
+    let entry = this.getEntry(key);
+    if (!entry || entry.value !== value) {
+      return false;
+    }
+
+    entry.expires = Date.now() + ttlInMilliseconds;
+    return true;
+  }
+
+  async deleteIfEquals(key: string, value: string): Promise<boolean> {
+    let entry = this.getEntry(key);
+    if (!entry || entry.value !== value) {
+      return false;
+    }
+
+    MemoryCacheBackend.entries.delete(key);
+    return true;
+  }
+
+  private execute(command: any[]): any {
+    let [ name, key, ...args ] = command;
+
+    switch (name.toLowerCase()) {
+      case 'get':
+        return this.getString(key);
+      case 'set':
+        this.setString(key, args[0], this.getExpiryArgument(args));
+        return 'OK';
+      case 'del':
+        return [ key, ...args ].filter(element => MemoryCacheBackend.entries.delete(element)).length;
+      case 'ttl':
+        return this.getTtl(key);
+      case 'expire':
+        return this.expire(key, Number(args[0]));
+      case 'sadd':
+        return this.addToSet(key, args);
+      case 'smembers':
+        return this.getSetMembers(key);
+      default:
+        throw new Error(`Unsupported command '${name}' in memory cache backend`);
+    }
+  }
+
+  private getExpiryArgument(args: any[]): number | undefined {
+    let index = args.findIndex(arg => typeof arg === 'string' && arg.toLowerCase() === 'ex');
+    if (index < 0) {
+      return undefined;
+    }
+
+    return Number(args[index + 1]);
+  }
+
+  private getEntry(key: string): MemoryCacheEntry | undefined {
+    let entry = MemoryCacheBackend.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expires !== undefined && entry.expires <= Date.now()) {
+      MemoryCacheBackend.entries.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  private getString(key: string): string | null {
+    let entry = this.getEntry(key);
+    if (!entry || typeof entry.value !== 'string') {
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  private setString(key: string, value: string, ttl: number | undefined) {
+    MemoryCacheBackend.entries.set(key, {
+      value,
+      expires: ttl !== undefined ? Date.now() + ttl * 1000 : undefined,
+    });
+  }
+
+  private getTtl(key: string): number {
+    let entry = this.getEntry(key);
+    if (!entry) {
+      return -2;
+    }
+
+    if (entry.expires === undefined) {
+      return -1;
+    }
+
+    return Math.ceil((entry.expires - Date.now()) / 1000);
+  }
+
+  private expire(key: string, ttl: number): number {
+    let entry = this.getEntry(key);
+    if (!entry) {
+      return 0;
+    }
+
+    entry.expires = Date.now() + ttl * 1000;
+    return 1;
+  }
+
+  private addToSet(key: string, members: string[]): number {
+    let entry = this.getEntry(key);
+    if (!entry) {
+      entry = { value: new Set<string>(), expires: undefined };
+      MemoryCacheBackend.entries.set(key, entry);
+    }
+
+    if (!(entry.value instanceof Set)) {
+      throw new Error(`Key '${key}' does not hold a set`);
+    }
+
+    let set = entry.value;
+    let countBefore = set.size;
+
+    for (let member of members) {
+      set.add(member);
+    }
+
+    return set.size - countBefore;
+  }
+
+  private getSetMembers(key: string): string[] {
+    let entry = this.getEntry(key);
+    if (!entry || !(entry.value instanceof Set)) {
+      return [];
+    }
+
+    return [...entry.value];
+  }
+
+  private getPatternRegex(pattern: string): RegExp {
+    let escaped = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${escaped}$`);
+  }
+}
@@ -0,0 +1,82 @@
+import { createClient } from 'redis';
+import { CacheBackend } from "./cache.backend";
+const { promisify } = require('util');
+
+export class RedisCacheBackend extends CacheBackend {
+  private client = createClient(6379, this.redisUrl);
+  private asyncSet = promisify(this.client.set).bind(this.client);
+  private asyncGet = promisify(this.client.get).bind(this.client);
+  private asyncFlushDb = promisify(this.client.flushdb).bind(this.client);
+  private asyncMGet = promisify(this.client.mget).bind(this.client);
+  private asyncDel = promisify(this.client.del).bind(this.client);
+  private asyncScan = promisify(this.client.scan).bind(this.client);
+  private asyncEval = promisify(this.client.eval).bind(this.client);
+
+  private static readonly setIfNotExistsAndIncrementScript = `
+    if redis.call('set', KEYS[1], ARGV[1], 'PX', ARGV[2], 'NX') then
+      return redis.call('incr', KEYS[2])
+    end
+    return 0`;
+
+  private static readonly extendIfEqualsScript = `
+    if redis.call('get', KEYS[1]) == ARGV[1] then
+      return redis.call('pexpire', KEYS[1], ARGV[2])
+    end
+    return 0`;
+
+  private static readonly deleteIfEqualsScript = `
+    if redis.call('get', KEYS[1]) == ARGV[1] then
+      return redis.call('del', KEYS[1])
+    end
+    return 0`;
+
+  constructor(
+    private readonly redisUrl: string,
+  ) {
+    super();
+  }
+
+  async get(key: string): Promise<string | null> {
+    return await this.asyncGet(key);
+  }
+
+  async set(key: string, value: string, ttl: number): Promise<void> {
+    await this.asyncSet(key, value, 'EX', ttl);
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    return await this.asyncMGet(keys);
+  }
+
+  async del(key: string): Promise<void> {
+    await this.asyncDel(key);
+  }
+
+  async scan(cursor: string, pattern: string, count: number): Promise<[ string, string[] ]> {
+    return await this.asyncScan(cursor, 'MATCH', pattern, 'COUNT', count);
+  }
+
+  async multi(commands: any[][]): Promise<any[]> {
+    const multi = this.client.multi(commands);
+    return await promisify(multi.exec).call(multi);
+  }
+
+  async flushDb(): Promise<void> {
+    await this.asyncFlushDb();
+  }
+
+  async setIfNotExistsAndIncrement(key: string, value: string, ttlInMilliseconds: number, counterKey: string): Promise<number | undefined> {
+    let result = await this.asyncEval(RedisCacheBackend.setIfNotExistsAndIncrementScript, 2, key, counterKey, value, ttlInMilliseconds);
+    return result > 0 ? result : undefined;
+  }
+
+  async extendIfEquals(key: string, value: string, ttlInMilliseconds: number): Promise<boolean> {
+    let result = await this.asyncEval(RedisCacheBackend.extendIfEqualsScript, 1, key, value, ttlInMilliseconds);
+    return result === 1;
+  }
+
+  async deleteIfEquals(key: string, value: string): Promise<boolean> {
+    let result = await this.asyncEval(RedisCacheBackend.deleteIfEqualsScript, 1, key, value);
+    return result === 1;
+  }
+}
@@ -8,6 +8,8 @@ import { KeybaseModule } from "./keybase/keybase.module";
 import { MetricsModule } from "./metrics/metrics.module";
 import { ApiModule } from "./network/api.module";
 import { ProtocolModule } from "./protocol/protocol.module";
+import { LockingModule } from "./locking/locking.module";
+import { ExportModule } from "./export/export.module";
 
 @Module({
   imports: [
@@ -20,10 +22,12 @@ import { ProtocolModule } from "./protocol/protocol.module";
     forwardRef(() => KeybaseModule),
     forwardRef(() => MetricsModule),
     forwardRef(() => ProtocolModule),
+    forwardRef(() => LockingModule),
+    forwardRef(() => ExportModule),
   ],
   exports: [
     ApiConfigModule, CachingModule, ApiModule, ElasticModule, GatewayModule, ExternalModule,
-    KeybaseModule, MetricsModule, ProtocolModule
+    KeybaseModule, MetricsModule, ProtocolModule, LockingModule, ExportModule
   ]
 })
 export class CommonModule { }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { forwardRef, Inject, Injectable } from "@nestjs/common";
+import { forwardRef, Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
 import { TransactionLog } from "src/endpoints/transactions/entities/transaction.log";
 import { ApiService } from "../network/api.service";
 import { PerformanceProfiler } from "src/utils/performance.profiler";
@@ -13,10 +13,26 @@ import { QueryConditionOptions } from "./entities/query.condition.options";
 import { QueryPagination } from "../entities/query.pagination";
 import { ElasticSortOrder } from "./entities/elastic.sort.order";
 import { CollectionFilter } from "src/endpoints/collections/entities/collection.filter";
+import { CursorPage } from "../entities/cursor.page";
+import { CursorUtils } from "src/utils/cursor.utils";
+import { ElasticAggregationResult } from "./entities/elastic.aggregation.result";
+import { AbstractAggregation } from "./entities/abstract.aggregation";
+import { UrlPool } from "../network/url.pool";
+import { ElasticSource } from "./entities/elastic.source";
+import { AbstractQuery } from "./entities/abstract.query";
+import { ElasticSearchRequest } from "./entities/elastic.search.request";
+import { Batcher } from "src/utils/batcher";
+import { HttpRecordingMode } from "../network/entities/http.recording.mode";
+import { RequestContext } from "src/utils/request.context";
 
 @Injectable()
-export class ElasticService {
-  private readonly url: string;
+export class ElasticService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger: Logger;
+  private static readonly maxBatchSize = 50;
+  // a point in time only needs to stay open between two consecutive pages of an iteration
+  private static readonly pointInTimeKeepAlive = '5m';
+  private readonly pools: { [ source: string ]: UrlPool };
+  private healthCheckTimer: NodeJS.Timeout | undefined;
 
   constructor(
     private apiConfigService: ApiConfigService,
@@ -25,39 +41,100 @@ export class ElasticService {
     @Inject(forwardRef(() => MetricsService))
     private readonly metricsService: MetricsService
   ) {
-    this.url = apiConfigService.getElasticUrl();
+    this.logger = new Logger(ElasticService.name);
+
+    let strategy = apiConfigService.getElasticUrlSelectionStrategy();
+    let maxAttempts = apiConfigService.getElasticMaxAttempts();
+
+    let sourceUrls = {
+      [ElasticSource.indexer]: apiConfigService.getElasticUrls(),
+      [ElasticSource.mex]: apiConfigService.getMexUrls(),
+    };
+
+    // optional sources, such as mex, have no pool when they are not configured
+    this.pools = {};
+    for (let [ source, urls ] of Object.entries(sourceUrls)) {
+      if (urls.length > 0) {
+        this.pools[source] = new UrlPool(urls, strategy, maxAttempts);
+      }
+    }
   }
 
-  async getCount(collection: string, elasticQuery: ElasticQuery | undefined = undefined) {
-    const url = `${this.apiConfigService.getElasticUrl()}/${collection}/_count`;
+  onModuleInit() {
+    // health checks would add unrelated calls to the recordings and fail in replay mode, where every node is reachable anyway
+    if (this.apiConfigService.getHttpRecordingMode() !== HttpRecordingMode.disabled) {
+      return;
+    }
 
-    let profiler = new PerformanceProfiler();
+    this.healthCheckTimer = setInterval(async () => await this.checkHealth(), this.apiConfigService.getElasticHealthCheckIntervalInMilliseconds());
 
-    const result: any = await this.post(url, elasticQuery?.toJson());
+    // health checks alone must not keep the process alive
+    this.healthCheckTimer.unref();
+  }
 
-    profiler.stop();
+  onModuleDestroy() {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+    }
+  }
 
-    this.metricsService.setElasticDuration(collection, profiler.duration);
+  async checkHealth() {
+    for (let pool of Object.values(this.pools)) {
+      for (let node of pool.getNodes()) {
+        let result = await this.apiService.get(`${node.url}/_cluster/health`, 5000, async () => true);
 
-    let count = result.data.count;
+        let isHealthy = result?.data?.status !== undefined && result.data.status !== 'red';
+        if (isHealthy !== node.isHealthy) {
+          this.logger.log(`Elastic node '${node.url}' is now ${isHealthy ? 'healthy' : 'unhealthy'}`);
+        }
 
-    return count;
-  };
+        pool.setHealthy(node.url, isHealthy);
+        this.metricsService.setElasticNodeHealth(node.url, isHealthy);
+      }
+    }
+  }
 
-  async getItem(collection: string, key: string, identifier: string) {
-    const url = `${this.url}/${collection}/_search?q=_id:${identifier}`;
-    let result = await this.get(url);
+  async getCount(collection: string, elasticQuery: ElasticQuery | undefined = undefined) {
+    // counting through _search rather than _count allows the query to be batched with others
+    const result = await this.search(collection, { ...elasticQuery?.toJson(), size: 0, track_total_hits: true });
 
-    let hits = result.data?.hits?.hits;
-    if (hits && hits.length > 0) {
-      let document = hits[0];
+    return result.hits.total.value;
+  };
 
-      return this.formatItem(document, key);
+  async getItem(collection: string, key: string, identifier: string, includes: string[] | undefined = undefined) {
+    let document = await this.getDocument(collection, identifier, includes);
+    if (!document) {
+      return undefined;
     }
 
-    return undefined;
+    return this.formatItem(document, key);
   };
 
+  // a get by id is realtime, so it also finds documents that were indexed but are not searchable yet
+  async getDocument(collection: string, identifier: string, includes: string[] | undefined = undefined): Promise<any> {
+    let path = `${collection}/_doc/${encodeURIComponent(identifier)}`;
+    if (includes?.length === 0) {
+      path += '?_source=false';
+    } else if (includes) {
+      path += `?_source_includes=${includes.map(include => encodeURIComponent(include)).join(',')}`;
+    }
+
+    let profiler = new PerformanceProfiler();
+
+    // missing documents are answered with a 404, which is not an error of the node
+    let result = await this.execute(ElasticSource.indexer, async url => await this.apiService.get(`${url}/${path}`, undefined, async (error: any) => error.response?.status === 404));
+
+    profiler.stop();
+
+    this.metricsService.setElasticDuration(collection, profiler.duration);
+
+    if (!result?.data?.found) {
+      return undefined;
+    }
+
+    return result.data;
+  }
+
   private formatItem(document: any, key: string) {
     const { _id, _source } = document;
     const item: any = {};
@@ -66,25 +143,151 @@ export class ElasticService {
     return { ...item, ..._source };
   };
 
-  async getList(collection: string, key: string, elasticQuery: ElasticQuery, overrideUrl?: string): Promise<any[]> {
-    const url = `${overrideUrl ?? this.url}/${collection}/_search`;
+  async getList(collection: string, key: string, elasticQuery: ElasticQuery, source: ElasticSource = ElasticSource.indexer): Promise<any[]> {
+    let page = await this.getPage(collection, key, elasticQuery, source);
+
+    return page.items;
+  }
+
+  async getPage(collection: string, key: string, elasticQuery: ElasticQuery, source: ElasticSource = ElasticSource.indexer): Promise<CursorPage<any>> {
+    const result = await this.search(collection, elasticQuery.toJson(), source);
+
+    return this.getCursorPage(result, key, elasticQuery);
+  };
+
+  private getCursorPage(result: any, key: string, elasticQuery: ElasticQuery): CursorPage<any> {
+    let documents = result.hits.hits;
+
+    let page = new CursorPage<any>();
+    page.items = documents.map((document: any) => this.formatItem(document, key));
+
+    // a full page means there might be more items, which can be fetched starting after the sort values of the last hit
+    let lastDocument = documents[documents.length - 1];
+    if (lastDocument?.sort && documents.length === elasticQuery.pagination?.size) {
+      page.cursor = CursorUtils.encode(lastDocument.sort);
+    }
+
+    return page;
+  }
+
+  // walks through all the matching documents using search_after inside a point in time, so documents whose sort values
+  // change while the walk is in progress (such as balances) are neither skipped nor returned twice
+  async iterate(collection: string, key: string, elasticQuery: ElasticQuery, handler: (items: any[]) => Promise<boolean>, pageSize: number = 1000, source: ElasticSource = ElasticSource.indexer): Promise<void> {
+    let pointInTimeId = await this.openPointInTime(collection, source);
+
+    try {
+      let cursor: string | undefined = undefined;
+
+      do {
+        elasticQuery.withPagination({ from: 0, size: pageSize, cursor });
+
+        // searches within a point in time cannot name an index, so they are sent on their own instead of through the batcher
+        let result = await this.post('_search', {
+          ...elasticQuery.toJson(),
+          pit: { id: pointInTimeId, keep_alive: ElasticService.pointInTimeKeepAlive },
+        }, source);
+
+        pointInTimeId = result.data.pit_id ?? pointInTimeId;
+
+        let page = this.getCursorPage(result.data, key, elasticQuery);
+        if (page.items.length === 0) {
+          break;
+        }
+
+        let shouldContinue = await handler(page.items);
+        if (!shouldContinue) {
+          break;
+        }
+
+        cursor = page.cursor;
+      } while (cursor);
+    } finally {
+      await this.closePointInTime(pointInTimeId, source);
+    }
+  }
+
+  private async openPointInTime(collection: string, source: ElasticSource): Promise<string> {
+    let result = await this.post(`${collection}/_pit?keep_alive=${ElasticService.pointInTimeKeepAlive}`, undefined, source);
+
+    return result.data.id;
+  }
 
+  private async closePointInTime(id: string, source: ElasticSource): Promise<void> {
+    try {
+      await this.execute(source, async url => await this.apiService.delete(`${url}/_pit`, { id }));
+    } catch (error) {
+      // an unclosed point in time is released by elastic anyway once its keep alive expires
+      this.logger.error(`Error when closing point in time '${id}'`);
+      this.logger.error(error);
+    }
+  }
+
+  async getAggregations(collection: string, elasticQuery: ElasticQuery): Promise<{ [ name: string ]: ElasticAggregationResult }> {
+    // only the aggregations are of interest, so no documents are fetched
+    const result = await this.search(collection, { ...elasticQuery.toJson(), size: 0 });
+
+    return AbstractAggregation.getResults(elasticQuery.aggregations, result.aggregations);
+  }
+
+  async multiSearch(requests: ElasticSearchRequest[], source: ElasticSource = ElasticSource.indexer): Promise<any[]> {
+    this.metricsService.setElasticBatchSize(source, requests.length);
+
+    if (requests.length === 1) {
+      const result = await this.post(`${requests[0].collection}/_search`, requests[0].body, source);
+
+      return [ result.data ];
+    }
+
+    let body = '';
+    for (let request of requests) {
+      body += JSON.stringify({ index: request.collection }) + '\n';
+      body += JSON.stringify(request.body) + '\n';
+    }
+
+    const result = await this.execute(source, async url => await this.apiService.post(`${url}/_msearch`, body, undefined, undefined, { 'Content-Type': 'application/x-ndjson' }));
+
+    return result.data.responses;
+  }
+
+  private createSearchBatcher(source: ElasticSource): Batcher<ElasticSearchRequest, any> {
+    // which searches end up in the same _msearch depends on timing, which would make recorded request bodies unreproducible
+    let maxBatchSize = this.apiConfigService.getHttpRecordingMode() === HttpRecordingMode.disabled ? ElasticService.maxBatchSize : 1;
+
+    return new Batcher<ElasticSearchRequest, any>(async requests => {
+      let responses = await this.multiSearch(requests, source);
+
+      // each search of a _msearch request fails on its own, keeping its status like the errors thrown by the api service
+      return responses.map(response => response.error ? this.createSearchError(response) : response);
+    }, maxBatchSize);
+  }
+
+  private createSearchError(response: any): Error {
+    let error: any = new Error(JSON.stringify(response.error));
+    error.status = response.status;
+    error.response = response.error;
+
+    return error;
+  }
+
+  private async search(collection: string, body: any, source: ElasticSource = ElasticSource.indexer): Promise<any> {
     let profiler = new PerformanceProfiler();
 
-    const result = await this.post(url, elasticQuery.toJson());
+    // searches issued within the same tick on behalf of the same request are sent together as a single _msearch request
+    let batcher = RequestContext.getOrCreate(`${ElasticService.name}:searchBatcher:${source}`, () => this.createSearchBatcher(source));
+
+    let result = await batcher.load({ collection, body });
 
     profiler.stop();
 
     this.metricsService.setElasticDuration(collection, profiler.duration);
 
-    let took = result.data.took;
+    let took = result.took;
     if (!isNaN(took)) {
       this.metricsService.setElasticTook(collection, took);
     }
 
-    let documents = result.data.hits.hits;
-    return documents.map((document: any) => this.formatItem(document, key));
-  };
+    return result;
+  }
 
   async getAccountEsdtByIdentifier(identifier: string, pagination?: QueryPagination) {
     return this.getAccountEsdtByIdentifiers([identifier], pagination);
@@ -178,16 +381,21 @@ export class ElasticService {
     return await this.getDocumentCount('accountsesdt', elasticQuery.toJson());
   }
 
-  private buildElasticNftFilter(from: number, size: number, filter: NftFilter, identifier: string | undefined) {
+  private buildElasticNftFilter(pagination: QueryPagination, filter: NftFilter, identifier: string | undefined) {
     let queries = [];
     queries.push(QueryType.Exists('identifier'));
 
     if (filter.search !== undefined) {
-      queries.push(QueryType.Wildcard('token', `*${filter.search}*`));
+      queries.push(QueryType.Bool({
+        should: [
+          QueryType.Prefix('token', filter.search),
+          QueryType.Nested('data', { "data.name": filter.search }),
+        ],
+      }));
     }
 
     if (filter.type !== undefined) {
-      queries.push(QueryType.Match('type', filter.type));
+      queries.push(QueryType.Term('type', filter.type));
     }
 
     if (identifier !== undefined) {
@@ -221,24 +429,27 @@ export class ElasticService {
 
     if (filter.identifiers) {
       let identifiers = filter.identifiers;
-      queries.push(QueryType.Should(identifiers.map(identifier => QueryType.Match('identifier', identifier, QueryOperator.AND))));
+      queries.push(QueryType.Terms('identifier', identifiers));
     }
 
     const elasticQuery = ElasticQuery.create()
-      .withPagination({ from, size })
-      .withSort([{ name: 'timestamp', order: ElasticSortOrder.descending }])
+      .withPagination({ from: pagination.from, size: pagination.size, cursor: pagination.cursor })
+      .withSort([
+        { name: 'timestamp', order: ElasticSortOrder.descending },
+        // every nft has its own identifier, which breaks ties between nfts created at the same time
+        { name: 'identifier', order: ElasticSortOrder.ascending },
+      ])
       .withCondition(QueryConditionOptions.must, queries)
       .withCondition(QueryConditionOptions.mustNot, [QueryType.Match('type', 'FungibleESDT')]);
 
     return elasticQuery;
   }
 
-  async getNfts(from: number, size: number, filter: NftFilter, identifier: string | undefined) {
-    let elasticQuery = await this.buildElasticNftFilter(from, size, filter, identifier);
-
-    let documents = await this.getDocuments('tokens', elasticQuery.toJson());
+  async getNfts(pagination: QueryPagination, filter: NftFilter, identifier: string | undefined, includes: string[] | undefined = undefined): Promise<CursorPage<any>> {
+    let elasticQuery = this.buildElasticNftFilter(pagination, filter, identifier)
+      .withIncludes(includes);
 
-    return documents.map((document: any) => this.formatItem(document, 'identifier'));
+    return await this.getPage('tokens', 'identifier', elasticQuery);
   }
 
   async getTokenCollectionCount(search: string | undefined, type: NftType | undefined) {
@@ -246,24 +457,20 @@ export class ElasticService {
     mustNotQueries.push(QueryType.Exists('identifier'));
 
     let mustQueries = [];
+    mustQueries.push(QueryType.Terms('type', [NftType.SemiFungibleESDT, NftType.NonFungibleESDT, NftType.MetaESDT]));
+
     if (search !== undefined) {
-      mustQueries.push(QueryType.Wildcard('token', `*${search}*`));
+      mustQueries.push(this.buildCollectionSearchQuery(search));
     }
 
     if (type !== undefined) {
-      mustQueries.push(QueryType.Match('type', type));
+      mustQueries.push(QueryType.Term('type', type));
     }
 
-    let shouldQueries = [];
-    shouldQueries.push(QueryType.Match('type', NftType.SemiFungibleESDT));
-    shouldQueries.push(QueryType.Match('type', NftType.NonFungibleESDT));
-    shouldQueries.push(QueryType.Match('type', NftType.MetaESDT));
-
     const elasticQuery = ElasticQuery.create()
       .withPagination({ from: 0, size: 0 })
       .withSort([{ name: 'timestamp', order: ElasticSortOrder.descending }])
       .withCondition(QueryConditionOptions.must, mustQueries)
-      .withCondition(QueryConditionOptions.should, shouldQueries)
       .withCondition(QueryConditionOptions.mustNot, mustNotQueries);
 
     return await this.getDocumentCount('tokens', elasticQuery.toJson());
@@ -274,32 +481,28 @@ export class ElasticService {
     mustNotQueries.push(QueryType.Exists('identifier'));
 
     let mustQueries = [];
+    mustQueries.push(QueryType.Terms('type', [NftType.SemiFungibleESDT, NftType.NonFungibleESDT, NftType.MetaESDT]));
+
     if (filter.collection !== undefined) {
       mustQueries.push(QueryType.Match('token', filter.collection, QueryOperator.AND));
     }
 
     if (filter.identifiers !== undefined) {
-      mustQueries.push(QueryType.Should(filter.identifiers.map(identifier => QueryType.Match('token', identifier, QueryOperator.AND))));
+      mustQueries.push(QueryType.Terms('token', filter.identifiers));
     }
 
     if (filter.search !== undefined) {
-      mustQueries.push(QueryType.Wildcard('token', `*${filter.search}*`));
+      mustQueries.push(this.buildCollectionSearchQuery(filter.search));
     }
 
     if (filter.type !== undefined) {
-      mustQueries.push(QueryType.Match('type', filter.type));
+      mustQueries.push(QueryType.Term('type', filter.type));
     }
 
-    let shouldQueries = [];
-    shouldQueries.push(QueryType.Match('type', NftType.SemiFungibleESDT));
-    shouldQueries.push(QueryType.Match('type', NftType.NonFungibleESDT));
-    shouldQueries.push(QueryType.Match('type', NftType.MetaESDT));
-
     const elasticQuery = ElasticQuery.create()
       .withPagination(pagination)
       .withSort([{ name: 'timestamp', order: ElasticSortOrder.descending }])
       .withCondition(QueryConditionOptions.must, mustQueries)
-      .withCondition(QueryConditionOptions.should, shouldQueries)
       .withCondition(QueryConditionOptions.mustNot, mustNotQueries);
 
     let documents = await this.getDocuments('tokens', elasticQuery.toJson());
@@ -307,6 +510,16 @@ export class ElasticService {
     return documents.map((document: any) => this.formatItem(document, 'identifier'));
   }
 
+  // collections are matched either by the beginning of their identifier or, typos included, by their name
+  private buildCollectionSearchQuery(search: string): AbstractQuery {
+    return QueryType.Bool({
+      should: [
+        QueryType.Prefix('token', search),
+        QueryType.Fuzzy('name', search),
+      ],
+    });
+  }
+
   async getTokenByIdentifier(identifier: string) {
     const queries = [
       QueryType.Exists('identifier'),
@@ -324,7 +537,7 @@ export class ElasticService {
   }
 
   async getNftCount(filter: NftFilter): Promise<number> {
-    let query = await this.buildElasticNftFilter(0, 0, filter, undefined);
+    let query = this.buildElasticNftFilter({ from: 0, size: 0 }, filter, undefined);
 
     return await this.getDocumentCount('tokens', query.toJson());
   }
@@ -333,47 +546,51 @@ export class ElasticService {
     return await this.getDocuments('logs', elasticQuery.toJson());
   }
 
-  public async get(url: string) {
-    return await this.apiService.get(url);
+  private async post(path: string, body: any, source: ElasticSource = ElasticSource.indexer) {
+    return await this.execute(source, async url => await this.apiService.post(`${url}/${path}`, body));
   }
 
-  private async post(url: string, body: any) {
-    return await this.apiService.post(url, body);
-  }
-
-  private async getDocuments(collection: string, body: any) {
-    let profiler = new PerformanceProfiler();
-
-    let result = await this.post(`${this.url}/${collection}/_search`, body);
+  private async execute(source: ElasticSource, request: (url: string) => Promise<any>): Promise<any> {
+    // all the requests sent to elastic are reads, so they can safely be retried on another node
+    let pool = this.pools[source];
+    if (!pool) {
+      throw new Error(`No urls configured for elastic source '${source}'`);
+    }
 
-    profiler.stop();
+    return await pool.execute(async url => {
+      let profiler = new PerformanceProfiler();
+
+      try {
+        return await request(url);
+      } catch (error) {
+        this.metricsService.incrementElasticNodeError(url);
+        throw error;
+      } finally {
+        profiler.stop();
+        this.metricsService.setElasticNodeDuration(url, profiler.duration);
+      }
+    }, (error: any) => this.isRetryableError(error));
+  }
 
-    this.metricsService.setElasticDuration(collection, profiler.duration);
+  private isRetryableError(error: any): boolean {
+    // client errors, such as malformed queries, would fail the same way on any other node
+    return error.status === undefined || error.status >= 500;
+  }
 
-    let took = result.data.tookn;
-    if (!isNaN(took)) {
-      this.metricsService.setElasticTook(collection, took);
-    }
+  private async getDocuments(collection: string, body: any) {
+    let result = await this.search(collection, body);
 
-    return result.data.hits.hits;
+    return result.hits.hits;
   }
 
   private async getDocumentCount(collection: string, body: any) {
-    let profiler = new PerformanceProfiler();
-
     const {
-      data: {
-        hits: {
-          total: {
-            value
-          }
+      hits: {
+        total: {
+          value
         }
       }
-    } = await this.post(`${this.url}/${collection}/_search`, body);
-
-    profiler.stop();
-
-    this.metricsService.setElasticDuration(collection, profiler.duration);
+    } = await this.search(collection, body);
 
     return value;
   }
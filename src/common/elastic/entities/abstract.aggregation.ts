@@ -0,0 +1,33 @@
+import { ElasticAggregationResult } from "./elastic.aggregation.result";
+
+export abstract class AbstractAggregation {
+  constructor(
+    readonly name: string,
+  ) {}
+
+  abstract getAggregation(): any;
+
+  abstract getResult(aggregation: any): ElasticAggregationResult;
+
+  static getAggregations(aggregations: AbstractAggregation[]): any {
+    if (aggregations.length === 0) {
+      return undefined;
+    }
+
+    let result: any = {};
+    for (let aggregation of aggregations) {
+      result[aggregation.name] = aggregation.getAggregation();
+    }
+
+    return result;
+  }
+
+  static getResults(aggregations: AbstractAggregation[], result: any): { [ name: string ]: ElasticAggregationResult } {
+    let results: { [ name: string ]: ElasticAggregationResult } = {};
+    for (let aggregation of aggregations) {
+      results[aggregation.name] = aggregation.getResult(result?.[aggregation.name]);
+    }
+
+    return results;
+  }
+}
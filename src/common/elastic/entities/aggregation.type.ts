@@ -0,0 +1,34 @@
+import { AbstractAggregation } from "./abstract.aggregation";
+import { AvgAggregation } from "./avg.aggregation";
+import { CardinalityAggregation } from "./cardinality.aggregation";
+import { DateHistogramAggregation } from "./date.histogram.aggregation";
+import { DateHistogramInterval } from "./date.histogram.interval";
+import { NestedAggregation } from "./nested.aggregation";
+import { SumAggregation } from "./sum.aggregation";
+import { TermsAggregation } from "./terms.aggregation";
+
+export class AggregationType {
+  static Terms = (name: string, field: string, size: number = 10, aggregations: AbstractAggregation[] = []): TermsAggregation => {
+    return new TermsAggregation(name, field, size, aggregations);
+  }
+
+  static DateHistogram = (name: string, field: string, interval: DateHistogramInterval, aggregations: AbstractAggregation[] = []): DateHistogramAggregation => {
+    return new DateHistogramAggregation(name, field, interval, aggregations);
+  }
+
+  static Sum = (name: string, field: string): SumAggregation => {
+    return new SumAggregation(name, field);
+  }
+
+  static Avg = (name: string, field: string): AvgAggregation => {
+    return new AvgAggregation(name, field);
+  }
+
+  static Cardinality = (name: string, field: string): CardinalityAggregation => {
+    return new CardinalityAggregation(name, field);
+  }
+
+  static Nested = (name: string, path: string, aggregations: AbstractAggregation[]): NestedAggregation => {
+    return new NestedAggregation(name, path, aggregations);
+  }
+}
@@ -0,0 +1,7 @@
+import { MetricAggregation } from "./metric.aggregation";
+
+export class AvgAggregation extends MetricAggregation {
+  constructor(name: string, field: string) {
+    super(name, 'avg', field);
+  }
+}
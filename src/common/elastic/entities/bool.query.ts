@@ -0,0 +1,21 @@
+import { AbstractQuery } from "./abstract.query";
+import { QueryCondition } from "./query.condition";
+
+export class BoolQuery extends AbstractQuery {
+  constructor(private readonly condition: Partial<QueryCondition>) {
+    super();
+  }
+
+  getQuery(): any {
+    const should = this.condition.should ?? [];
+
+    return {
+      bool: {
+        must: this.condition.must?.map(query => query.getQuery()),
+        should: should.map(query => query.getQuery()),
+        must_not: this.condition.must_not?.map(query => query.getQuery()),
+        minimum_should_match: should.length !== 0 ? 1 : undefined,
+      },
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import { AbstractAggregation } from "./abstract.aggregation";
+import { ElasticAggregationResult } from "./elastic.aggregation.result";
+import { ElasticBucket } from "./elastic.bucket";
+
+export abstract class BucketAggregation extends AbstractAggregation {
+  constructor(
+    name: string,
+    private readonly aggregations: AbstractAggregation[],
+  ) {
+    super(name);
+  }
+
+  abstract getBucketAggregation(): any;
+
+  getAggregation(): any {
+    return {
+      ...this.getBucketAggregation(),
+      aggs: AbstractAggregation.getAggregations(this.aggregations),
+    };
+  }
+
+  getResult(aggregation: any): ElasticAggregationResult {
+    let result = new ElasticAggregationResult();
+
+    for (let rawBucket of aggregation?.buckets ?? []) {
+      let bucket = new ElasticBucket();
+      bucket.key = rawBucket.key;
+      bucket.keyAsString = rawBucket.key_as_string;
+      bucket.count = rawBucket.doc_count;
+      bucket.aggregations = AbstractAggregation.getResults(this.aggregations, rawBucket);
+
+      result.buckets.push(bucket);
+    }
+
+    return result;
+  }
+}
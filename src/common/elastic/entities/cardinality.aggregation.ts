@@ -0,0 +1,7 @@
+import { MetricAggregation } from "./metric.aggregation";
+
+export class CardinalityAggregation extends MetricAggregation {
+  constructor(name: string, field: string) {
+    super(name, 'cardinality', field);
+  }
+}
@@ -0,0 +1,24 @@
+import { AbstractAggregation } from "./abstract.aggregation";
+import { BucketAggregation } from "./bucket.aggregation";
+import { DateHistogramInterval } from "./date.histogram.interval";
+
+export class DateHistogramAggregation extends BucketAggregation {
+  constructor(
+    name: string,
+    private readonly field: string,
+    private readonly interval: DateHistogramInterval,
+    aggregations: AbstractAggregation[] = [],
+  ) {
+    super(name, aggregations);
+  }
+
+  getBucketAggregation(): any {
+    return {
+      date_histogram: {
+        field: this.field,
+        calendar_interval: this.interval,
+        min_doc_count: 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,8 @@
+export enum DateHistogramInterval {
+  minute = 'minute',
+  hour = 'hour',
+  day = 'day',
+  week = 'week',
+  month = 'month',
+  year = 'year',
+}
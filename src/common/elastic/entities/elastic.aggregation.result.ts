@@ -0,0 +1,13 @@
+import { ElasticBucket } from "./elastic.bucket";
+
+export class ElasticAggregationResult {
+  // set by metric aggregations (sum, avg, cardinality)
+  value: number | undefined = undefined;
+
+  // set by bucket aggregations (terms, date histogram)
+  buckets: ElasticBucket[] = [];
+
+  // set by nested aggregations, together with the results of their sub aggregations
+  count: number | undefined = undefined;
+  aggregations: { [ name: string ]: ElasticAggregationResult } = {};
+}
@@ -0,0 +1,12 @@
+import { ElasticAggregationResult } from "./elastic.aggregation.result";
+
+export class ElasticBucket {
+  key: string | number = '';
+
+  // formatted key, only present for date histogram buckets
+  keyAsString: string | undefined = undefined;
+
+  count: number = 0;
+
+  aggregations: { [ name: string ]: ElasticAggregationResult } = {};
+}
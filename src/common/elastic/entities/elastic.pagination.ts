@@ -1,4 +1,5 @@
 export class ElasticPagination {
     from: number = 0
     size: number = 25
+    cursor?: string
 }
\ No newline at end of file
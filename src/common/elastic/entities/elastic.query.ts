@@ -1,10 +1,11 @@
 import { ApiUtils } from "src/utils/api.utils";
+import { CursorUtils } from "src/utils/cursor.utils";
+import { AbstractAggregation } from "./abstract.aggregation";
 import { AbstractQuery } from "./abstract.query"
 import { ElasticPagination } from "./elastic.pagination"
 import { ElasticSortProperty } from "./elastic.sort.property";
 import { QueryCondition } from "./query.condition"
 import { QueryConditionOptions } from "./query.condition.options";
-import { RangeQuery } from "./range.query";
 import { TermsQuery } from "./terms.query";
 
 function buildElasticIndexerSort(sorts: ElasticSortProperty[]): any[] {
@@ -21,6 +22,8 @@ export class ElasticQuery {
   filter: AbstractQuery[] = [];
   condition: QueryCondition = new QueryCondition();
   terms?: TermsQuery;
+  aggregations: AbstractAggregation[] = [];
+  includes: string[] | undefined = undefined;
 
   static create(): ElasticQuery {
     return new ElasticQuery();
@@ -50,7 +53,19 @@ export class ElasticQuery {
     return this;
   }
 
-  withFilter(filter: RangeQuery[]): ElasticQuery {
+  withAggregations(aggregations: AbstractAggregation[]): ElasticQuery {
+    this.aggregations = aggregations;
+
+    return this;
+  }
+
+  withIncludes(includes: string[] | undefined): ElasticQuery {
+    this.includes = includes;
+
+    return this;
+  }
+
+  withFilter(filter: AbstractQuery[]): ElasticQuery {
     this.filter = filter;
 
     return this;
@@ -58,9 +73,16 @@ export class ElasticQuery {
 
   toJson() {
     const elasticSort = buildElasticIndexerSort(this.sort);
+
+    // search_after continues right after the last hit of the previous page, so it cannot be combined with an offset
+    const searchAfter = this.pagination?.cursor ? CursorUtils.decode(this.pagination.cursor) : undefined;
   
     const elasticQuery = {
-      ...this.pagination,
+      from: searchAfter ? 0 : this.pagination?.from,
+      size: this.pagination?.size,
+      search_after: searchAfter,
+      // elastic returns the whole document for an empty list of includes, so no source at all has to be asked explicitly
+      _source: this.includes?.length === 0 ? false : this.includes,
       sort: elasticSort,
       query: {
         bool: {
@@ -70,8 +92,9 @@ export class ElasticQuery {
           must_not: this.condition.must_not.map(query => query.getQuery()),
           minimum_should_match: this.condition.should.length !== 0 ? 1 : undefined,
         },
-        terms: this.terms?.getQuery(),
-      }
+        terms: this.terms?.getQuery().terms,
+      },
+      aggs: AbstractAggregation.getAggregations(this.aggregations),
     }
   
     ApiUtils.cleanupApiValueRecursively(elasticQuery);
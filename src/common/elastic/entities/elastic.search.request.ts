@@ -0,0 +1,4 @@
+export class ElasticSearchRequest {
+  collection: string = '';
+  body: any = {};
+}
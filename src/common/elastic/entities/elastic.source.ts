@@ -0,0 +1,4 @@
+export enum ElasticSource {
+  indexer = 'indexer',
+  mex = 'mex',
+}
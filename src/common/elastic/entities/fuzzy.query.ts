@@ -0,0 +1,15 @@
+import { AbstractQuery } from "./abstract.query";
+
+export class FuzzyQuery extends AbstractQuery {
+  constructor(
+    private readonly key: string,
+    private readonly value: string,
+    private readonly fuzziness: string | number = 'AUTO',
+  ) {
+    super();
+  }
+
+  getQuery(): any {
+    return { fuzzy: { [this.key]: { value: this.value, fuzziness: this.fuzziness } } };
+  }
+}
@@ -0,0 +1,23 @@
+import { AbstractAggregation } from "./abstract.aggregation";
+import { ElasticAggregationResult } from "./elastic.aggregation.result";
+
+export abstract class MetricAggregation extends AbstractAggregation {
+  constructor(
+    name: string,
+    private readonly type: string,
+    private readonly field: string,
+  ) {
+    super(name);
+  }
+
+  getAggregation(): any {
+    return { [this.type]: { field: this.field } };
+  }
+
+  getResult(aggregation: any): ElasticAggregationResult {
+    let result = new ElasticAggregationResult();
+    result.value = aggregation?.value ?? undefined;
+
+    return result;
+  }
+}
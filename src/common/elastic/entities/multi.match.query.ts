@@ -0,0 +1,22 @@
+import { AbstractQuery } from "./abstract.query";
+import { QueryOperator } from "./query.operator";
+
+export class MultiMatchQuery extends AbstractQuery {
+  constructor(
+    private readonly value: string,
+    private readonly fields: string[],
+    private readonly operator: QueryOperator | undefined = undefined,
+  ) {
+    super();
+  }
+
+  getQuery(): any {
+    return {
+      multi_match: {
+        query: this.value,
+        fields: this.fields,
+        operator: this.operator,
+      },
+    };
+  }
+}
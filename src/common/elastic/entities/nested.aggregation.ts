@@ -0,0 +1,27 @@
+import { AbstractAggregation } from "./abstract.aggregation";
+import { ElasticAggregationResult } from "./elastic.aggregation.result";
+
+export class NestedAggregation extends AbstractAggregation {
+  constructor(
+    name: string,
+    private readonly path: string,
+    private readonly aggregations: AbstractAggregation[],
+  ) {
+    super(name);
+  }
+
+  getAggregation(): any {
+    return {
+      nested: { path: this.path },
+      aggs: AbstractAggregation.getAggregations(this.aggregations),
+    };
+  }
+
+  getResult(aggregation: any): ElasticAggregationResult {
+    let result = new ElasticAggregationResult();
+    result.count = aggregation?.doc_count;
+    result.aggregations = AbstractAggregation.getResults(this.aggregations, aggregation);
+
+    return result;
+  }
+}
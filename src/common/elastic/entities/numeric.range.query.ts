@@ -0,0 +1,34 @@
+import { AbstractQuery } from "./abstract.query";
+import { NumericRange } from "./numeric.range";
+
+// string amounts (balance, value) are mirrored by the indexer into numeric fields (balanceNum, valueNum),
+// which can be ranged over directly instead of going through a script
+export class NumericRangeQuery extends AbstractQuery {
+  constructor(
+    private readonly key: string,
+    private readonly range: NumericRange,
+  ) {
+    super();
+  }
+
+  getQuery(): any {
+    return {
+      range: {
+        [this.key]: {
+          gt: this.toNumber(this.range.gt),
+          gte: this.toNumber(this.range.gte),
+          lt: this.toNumber(this.range.lt),
+          lte: this.toNumber(this.range.lte),
+        },
+      },
+    };
+  }
+
+  private toNumber(value: string | number | undefined): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    return Number(value);
+  }
+}
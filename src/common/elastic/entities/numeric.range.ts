@@ -0,0 +1,6 @@
+export class NumericRange {
+  gt?: string | number;
+  gte?: string | number;
+  lt?: string | number;
+  lte?: string | number;
+}
@@ -1,10 +1,19 @@
 import { AbstractQuery } from "./abstract.query";
+import { BoolQuery } from "./bool.query";
 import { ExistsQuery } from "./exists.query";
+import { FuzzyQuery } from "./fuzzy.query";
 import { MatchQuery } from "./match.query";
+import { MultiMatchQuery } from "./multi.match.query";
 import { NestedQuery } from "./nested.query";
+import { NumericRange } from "./numeric.range";
+import { NumericRangeQuery } from "./numeric.range.query";
+import { PrefixQuery } from "./prefix.query";
+import { QueryCondition } from "./query.condition";
 import { QueryOperator } from "./query.operator";
 import { RangeQuery } from "./range.query";
 import { ShouldQuery } from "./should.query";
+import { TermQuery } from "./term.query";
+import { TermsQuery } from "./terms.query";
 import { WildcardQuery } from "./wildcard.query";
 
 export class QueryType {
@@ -31,4 +40,32 @@ export class QueryType {
   static Should = (queries: AbstractQuery[]): ShouldQuery => {
     return new ShouldQuery(queries);
   }
+
+  static Prefix = (key: string, value: string): PrefixQuery => {
+    return new PrefixQuery(key, value);
+  }
+
+  static Term = (key: string, value: any): TermQuery => {
+    return new TermQuery(key, value);
+  }
+
+  static Terms = (key: string, values: any[]): TermsQuery => {
+    return new TermsQuery(key, values);
+  }
+
+  static MultiMatch = (value: string, fields: string[], operator: QueryOperator | undefined = undefined): MultiMatchQuery => {
+    return new MultiMatchQuery(value, fields, operator);
+  }
+
+  static Fuzzy = (key: string, value: string, fuzziness: string | number = 'AUTO'): FuzzyQuery => {
+    return new FuzzyQuery(key, value, fuzziness);
+  }
+
+  static Bool = (condition: Partial<QueryCondition>): BoolQuery => {
+    return new BoolQuery(condition);
+  }
+
+  static NumericRange = (key: string, range: NumericRange): NumericRangeQuery => {
+    return new NumericRangeQuery(key, range);
+  }
 }
\ No newline at end of file
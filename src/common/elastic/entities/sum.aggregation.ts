@@ -0,0 +1,7 @@
+import { MetricAggregation } from "./metric.aggregation";
+
+export class SumAggregation extends MetricAggregation {
+  constructor(name: string, field: string) {
+    super(name, 'sum', field);
+  }
+}
@@ -0,0 +1,14 @@
+import { AbstractQuery } from "./abstract.query";
+
+export class TermQuery extends AbstractQuery {
+  constructor(
+    private readonly key: string,
+    private readonly value: any,
+  ) {
+    super();
+  }
+
+  getQuery(): any {
+    return { term: { [this.key]: this.value } };
+  }
+}
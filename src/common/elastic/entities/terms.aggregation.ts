@@ -0,0 +1,17 @@
+import { AbstractAggregation } from "./abstract.aggregation";
+import { BucketAggregation } from "./bucket.aggregation";
+
+export class TermsAggregation extends BucketAggregation {
+  constructor(
+    name: string,
+    private readonly field: string,
+    private readonly size: number = 10,
+    aggregations: AbstractAggregation[] = [],
+  ) {
+    super(name, aggregations);
+  }
+
+  getBucketAggregation(): any {
+    return { terms: { field: this.field, size: this.size } };
+  }
+}
@@ -3,14 +3,12 @@ import { AbstractQuery } from "./abstract.query";
 export class TermsQuery extends AbstractQuery {
   constructor(
     private readonly key: string,
-    private readonly value: string[],
+    private readonly value: any[],
   ) {
     super();
   }
 
   getQuery(): any {
-    return {
-      [this.key]: this.value,
-    }
+    return { terms: { [this.key]: this.value } };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,6 @@
+export class CursorPage<T> {
+  items: T[] = [];
+
+  // opaque value to pass as the cursor query param in order to fetch the next page, undefined when there are no more items
+  cursor: string | undefined = undefined;
+}
@@ -1,4 +1,5 @@
 export abstract class QueryPagination {
   from: number = 0;
   size: number = 25; 
+  cursor?: string;
 }
\ No newline at end of file
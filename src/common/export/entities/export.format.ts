@@ -0,0 +1,4 @@
+export enum ExportFormat {
+  ndjson = 'ndjson',
+  csv = 'csv',
+}
@@ -0,0 +1,16 @@
+import { Module } from "@nestjs/common";
+import { ApiConfigModule } from "../api-config/api.config.module";
+import { ExportService } from "./export.service";
+
+@Module({
+  imports: [
+    ApiConfigModule,
+  ],
+  providers: [
+    ExportService,
+  ],
+  exports: [
+    ExportService,
+  ]
+})
+export class ExportModule { }
@@ -0,0 +1,91 @@
+import { HttpException, HttpStatus, Injectable, Logger } from "@nestjs/common";
+import { Response } from "express";
+import { ApiConfigService } from "../api-config/api.config.service";
+import { ExportFormat } from "./entities/export.format";
+
+@Injectable()
+export class ExportService {
+  private readonly logger: Logger;
+  private readonly activeExports: { [ name: string ]: number } = {};
+
+  constructor(
+    private readonly apiConfigService: ApiConfigService,
+  ) {
+    this.logger = new Logger(ExportService.name);
+  }
+
+  // the iterator feeds one page at a time into the handler, which returns false once the client went away
+  async export<T>(response: Response, name: string, format: ExportFormat, columns: (keyof T)[], iterator: (handler: (items: T[]) => Promise<boolean>) => Promise<void>): Promise<void> {
+    let activeCount = this.activeExports[name] ?? 0;
+    if (activeCount >= this.apiConfigService.getExportsMaxConcurrentRequests()) {
+      throw new HttpException(`Too many concurrent '${name}' exports, please try again later`, HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    this.activeExports[name] = activeCount + 1;
+
+    let isClosed = false;
+    response.on('close', () => isClosed = true);
+
+    try {
+      response.status(HttpStatus.OK);
+      response.setHeader('Content-Type', format === ExportFormat.csv ? 'text/csv' : 'application/x-ndjson');
+      response.setHeader('Content-Disposition', `attachment; filename="${name}.${format}"`);
+
+      if (format === ExportFormat.csv) {
+        await this.write(response, columns.join(',') + '\n');
+      }
+
+      await iterator(async (items) => {
+        if (isClosed) {
+          return false;
+        }
+
+        let chunk = items.map(item => this.formatItem(item, format, columns)).join('');
+        await this.write(response, chunk);
+
+        return !isClosed;
+      });
+    } catch (error) {
+      // headers are already sent at this point, so the only way to signal the failure is to abort the response
+      this.logger.error(`Error when exporting '${name}'`);
+      this.logger.error(error);
+      response.destroy();
+      return;
+    } finally {
+      this.activeExports[name]--;
+    }
+
+    response.end();
+  }
+
+  private formatItem<T>(item: T, format: ExportFormat, columns: (keyof T)[]): string {
+    if (format === ExportFormat.csv) {
+      return columns.map(column => this.formatCsvValue(item[column])).join(',') + '\n';
+    }
+
+    return JSON.stringify(item) + '\n';
+  }
+
+  private formatCsvValue(value: any): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+
+    let text = typeof value === 'object' ? JSON.stringify(value) : value.toString();
+    if (/[",\r\n]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+
+    return text;
+  }
+
+  private async write(response: Response, chunk: string): Promise<void> {
+    // waiting for the socket buffer to drain applies backpressure to the elastic iteration
+    if (!response.write(chunk)) {
+      await new Promise(resolve => {
+        response.once('drain', resolve);
+        response.once('close', resolve);
+      });
+    }
+  }
+}
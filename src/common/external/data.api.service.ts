@@ -2,6 +2,7 @@ import { Injectable, Logger } from "@nestjs/common";
 import { ApiConfigService } from "../api-config/api.config.service";
 import { DataQuoteType } from "./entities/data.quote.type";
 import { ApiService } from "../network/api.service";
+import { ResiliencePolicyName } from "../network/entities/resilience.policy.name";
 
 @Injectable()
 export class DataApiService {
@@ -22,7 +23,7 @@ export class DataApiService {
     }
 
     try {
-      const { data } = await this.apiService.get(`${this.dataUrl}/closing/quoteshistorical/egld/${type}/${timestamp}`);
+      const { data } = await this.apiService.get(`${this.dataUrl}/closing/quoteshistorical/egld/${type}/${timestamp}`, undefined, undefined, ResiliencePolicyName.dataApi);
 
       return data;
     } catch (error) {
@@ -38,7 +39,7 @@ export class DataApiService {
     }
 
     try {
-      const { data } = await this.apiService.get(`${this.dataUrl}/latest/quoteshistorical/egld/${type}`);
+      const { data } = await this.apiService.get(`${this.dataUrl}/latest/quoteshistorical/egld/${type}`, undefined, undefined, ResiliencePolicyName.dataApi);
 
       return data;
     } catch (error) {
@@ -1,38 +1,84 @@
-import { forwardRef, Inject, Injectable } from "@nestjs/common";
+import { forwardRef, Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
 import { PerformanceProfiler } from "src/utils/performance.profiler";
 import { ApiConfigService } from "../api-config/api.config.service";
 import { MetricsService } from "../metrics/metrics.service";
 import { ApiService } from "../network/api.service";
+import { CircuitBreaker } from "../network/circuit.breaker";
+import { CircuitBreakerState } from "../network/entities/circuit.breaker.state";
+import { UrlPool } from "../network/url.pool";
+import { HttpRecordingMode } from "../network/entities/http.recording.mode";
 import { GatewayComponentRequest } from "./entities/gateway.component.request";
 
 @Injectable()
-export class GatewayService {
+export class GatewayService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger: Logger;
+  // besides the idempotent GETs, only these POST requests are safe to send more than once
+  private static readonly retryablePostComponents: GatewayComponentRequest[] = [ GatewayComponentRequest.vmQuery ];
+  private readonly pool: UrlPool;
+  private readonly circuitBreakers: { [ component: string ]: CircuitBreaker } = {};
+  private healthCheckTimer: NodeJS.Timeout | undefined;
+
   constructor(
     private readonly apiConfigService: ApiConfigService,
     @Inject(forwardRef(() => ApiService))
     private readonly apiService: ApiService,
     @Inject(forwardRef(() => MetricsService))
     private readonly metricsService: MetricsService,
-  ) {}
+  ) {
+    this.logger = new Logger(GatewayService.name);
 
-  async get(url: string, component: GatewayComponentRequest, errorHandler?: (error: any) => Promise<boolean>): Promise<any> {
-    let profiler = new PerformanceProfiler();
-    
-    try {
-      let result = await this.getRaw(url, component, errorHandler);
-      return result?.data?.data;
-    } finally  {
-      profiler.stop();
+    this.pool = new UrlPool(
+      apiConfigService.getGatewayUrls(),
+      apiConfigService.getGatewayUrlSelectionStrategy(),
+      apiConfigService.getGatewayMaxAttempts(),
+      apiConfigService.getGatewayRetryDelayInMilliseconds(),
+    );
+  }
 
-      this.metricsService.setGatewayDuration(component, profiler.duration);
+  onModuleInit() {
+    // health checks go through the recorder like any other call, so they are left out of recording sessions
+    if (this.apiConfigService.getHttpRecordingMode() !== HttpRecordingMode.disabled) {
+      return;
     }
+
+    this.healthCheckTimer = setInterval(async () => await this.checkHealth(), this.apiConfigService.getGatewayHealthCheckIntervalInMilliseconds());
+
+    // health checks alone must not keep the process alive
+    this.healthCheckTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+    }
+  }
+
+  async checkHealth() {
+    for (let node of this.pool.getNodes()) {
+      let result = await this.apiService.get(`${node.url}/network/config`, 5000, async () => true);
+
+      let isHealthy = result?.data?.code === 'successful';
+      if (isHealthy !== node.isHealthy) {
+        this.logger.log(`Gateway node '${node.url}' is now ${isHealthy ? 'healthy' : 'unhealthy'}`);
+      }
+
+      this.pool.setHealthy(node.url, isHealthy);
+      this.metricsService.setGatewayNodeHealth(node.url, isHealthy);
+    }
+  }
+
+  async get(url: string, component: GatewayComponentRequest, errorHandler?: (error: any) => Promise<boolean>): Promise<any> {
+    let result = await this.getRaw(url, component, errorHandler);
+    return result?.data?.data;
   }
- 
+
   async getRaw(url: string, component: GatewayComponentRequest, errorHandler?: (error: any) => Promise<boolean>): Promise<any> {
     let profiler = new PerformanceProfiler();
 
     try {
-      return await this.apiService.get(`${this.apiConfigService.getGatewayUrl()}/${url}`, undefined, errorHandler);
+      let timeout = this.apiConfigService.getGatewayTimeoutInMilliseconds(component);
+
+      return await this.execute(component, true, async gatewayUrl => await this.apiService.get(`${gatewayUrl}/${url}`, timeout, errorHandler));
     } finally  {
       profiler.stop();
 
@@ -41,12 +87,18 @@ export class GatewayService {
   }
 
   async create(url: string, component: GatewayComponentRequest, data: any, errorHandler?: (error: any) => Promise<boolean>): Promise<any> {
+    let result = await this.createRaw(url, component, data, errorHandler);
+    return result?.data?.data;
+  }
+
+  async createRaw(url: string, component: GatewayComponentRequest, data: any, errorHandler?: (error: any) => Promise<boolean>): Promise<any> {
     let profiler = new PerformanceProfiler();
 
     try {
-      let result = await this.createRaw(url, component, data, errorHandler);
-      return result?.data?.data;
-  
+      let timeout = this.apiConfigService.getGatewayTimeoutInMilliseconds(component);
+      let isRetryable = GatewayService.retryablePostComponents.includes(component);
+
+      return await this.execute(component, isRetryable, async gatewayUrl => await this.apiService.post(`${gatewayUrl}/${url}`, data, timeout, errorHandler));
     } finally  {
       profiler.stop();
 
@@ -54,15 +106,36 @@ export class GatewayService {
     }
   }
 
-  async createRaw(url: string, component: GatewayComponentRequest, data: any, errorHandler?: (error: any) => Promise<boolean>): Promise<any> {
-    let profiler = new PerformanceProfiler();
+  private async execute(component: GatewayComponentRequest, isRetryable: boolean, request: (gatewayUrl: string) => Promise<any>): Promise<any> {
+    let circuitBreaker = this.getCircuitBreaker(component);
 
-    try {
-      return await this.apiService.post(`${this.apiConfigService.getGatewayUrl()}/${url}`, data, undefined, errorHandler);
-    } finally  {
-      profiler.stop();
+    return await circuitBreaker.execute(
+      async () => await this.pool.execute(request, (error: any) => isRetryable && this.isServerError(error)),
+      (error: any) => this.isServerError(error),
+    );
+  }
 
-      this.metricsService.setGatewayDuration(component, profiler.duration);
+  private getCircuitBreaker(component: GatewayComponentRequest): CircuitBreaker {
+    let circuitBreaker = this.circuitBreakers[component];
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker(
+        `gateway ${component}`,
+        this.apiConfigService.getGatewayCircuitBreakerFailureThreshold(),
+        this.apiConfigService.getGatewayCircuitBreakerResetTimeoutInMilliseconds(),
+        (state: CircuitBreakerState) => {
+          this.logger.log(`Circuit of gateway component '${component}' is now ${state}`);
+          this.metricsService.setGatewayCircuitState(component, state);
+        },
+      );
+
+      this.circuitBreakers[component] = circuitBreaker;
     }
+
+    return circuitBreaker;
+  }
+
+  private isServerError(error: any): boolean {
+    // client errors, such as an invalid address, say nothing about the health of the gateway
+    return error.status === undefined || error.status >= 500;
   }
-}
\ No newline at end of file
+}
@@ -10,6 +10,7 @@ import { KeybaseIdentity } from "./entities/keybase.identity";
 import { KeybaseState } from "./entities/keybase.state";
 import { ApiService } from "../network/api.service";
 import { CacheInfo } from "../caching/entities/cache.info";
+import { ResiliencePolicyName } from "../network/entities/resilience.policy.name";
 
 @Injectable()
 export class KeybaseService {
@@ -110,7 +111,7 @@ export class KeybaseService {
   }
 
   async confirmKeybasesAgainstKeybasePubForIdentity(identity: string): Promise<void> {
-    const result = await this.apiService.get(`https://keybase.pub/${identity}/elrond`, 100000, async (error) => error.response?.status === HttpStatus.NOT_FOUND);
+    const result = await this.apiService.get(`https://keybase.pub/${identity}/elrond`, undefined, async (error) => error.response?.status === HttpStatus.NOT_FOUND, ResiliencePolicyName.keybase);
 
     if (!result) {
       this.logger.log(`For identity '${identity}', no keybase.pub entry was found`);
@@ -182,7 +183,7 @@ export class KeybaseService {
 
   async isKeybasePubUp(): Promise<boolean> {
     try {
-      const { status } = await this.apiService.head('https://keybase.pub');
+      const { status } = await this.apiService.head('https://keybase.pub', undefined, undefined, ResiliencePolicyName.keybase);
       return status === HttpStatus.OK;
     } catch (error) {
       this.logger.error('It seems that keybase.pub is down');
@@ -192,7 +193,7 @@ export class KeybaseService {
 
   async isKeybaseIoUp(): Promise<boolean> {
     try {
-      const { status } = await this.apiService.head('https://keybase.io');
+      const { status } = await this.apiService.head('https://keybase.io', undefined, undefined, ResiliencePolicyName.keybase);
       return status === HttpStatus.OK;
     } catch (error) {
       this.logger.error('It seems that keybase.io is down');
@@ -218,7 +219,7 @@ export class KeybaseService {
         }
 
         return false;
-      });
+      }, ResiliencePolicyName.keybase);
       return status === HttpStatus.OK;
     } catch (error: any) {
       if (error.response?.status === HttpStatus.NOT_FOUND) {
@@ -233,7 +234,7 @@ export class KeybaseService {
 
   async getProfile(identity: string): Promise<KeybaseIdentity | null> {
     try {
-      const { status, data } = await this.apiService.get(`https://keybase.io/_/api/1.0/user/lookup.json?username=${identity}`);
+      const { status, data } = await this.apiService.get(`https://keybase.io/_/api/1.0/user/lookup.json?username=${identity}`, undefined, undefined, ResiliencePolicyName.keybase);
   
       if (status === HttpStatus.OK && data.status.code === 0) {
         const { profile, pictures } = data.them;
@@ -0,0 +1,127 @@
+import { forwardRef, Inject, Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { randomBytes } from "crypto";
+import { hostname } from "os";
+import { Locker } from "src/utils/locker";
+import { ApiConfigService } from "../api-config/api.config.service";
+import { CacheBackend } from "../caching/cache.backend";
+import { MetricsService } from "../metrics/metrics.service";
+import { LockLease } from "./entities/lock.lease";
+import { LockScope } from "./entities/lock.scope";
+
+@Injectable()
+export class DistributedLockService implements OnModuleInit {
+  private readonly logger: Logger;
+  private readonly renewalTimers: { [ lease: string ]: NodeJS.Timeout } = {};
+  // identifies this instance in the owners of its leases
+  private readonly instanceId: string = `${hostname()}:${process.pid}`;
+
+  constructor(
+    private readonly apiConfigService: ApiConfigService,
+    private readonly cacheBackend: CacheBackend,
+    @Inject(forwardRef(() => MetricsService))
+    private readonly metricsService: MetricsService,
+  ) {
+    this.logger = new Logger(DistributedLockService.name);
+  }
+
+  onModuleInit() {
+    if (this.apiConfigService.getLockerScope() === LockScope.cluster) {
+      Locker.setDistributedLockService(this);
+    }
+  }
+
+  async acquire(key: string): Promise<LockLease | undefined> {
+    let lockKey = this.getLockKey(key);
+    let leaseDuration = this.apiConfigService.getLockerLeaseDurationInMilliseconds();
+
+    // every acquisition has an owner of its own, so that a late release of an earlier lease cannot remove a newer one
+    let owner = `${this.instanceId}:${randomBytes(8).toString('hex')}`;
+
+    // the fencing token is issued in the same atomic step as the lease, so no other holder can take a token in between
+    let fencingToken = await this.cacheBackend.setIfNotExistsAndIncrement(lockKey, owner, leaseDuration, this.getFencingKey(key));
+    if (fencingToken === undefined) {
+      this.metricsService.incrementLockAcquisition(key, 'busy');
+      return undefined;
+    }
+
+    let lease = new LockLease();
+    lease.key = key;
+    lease.owner = owner;
+    lease.fencingToken = fencingToken;
+
+    this.renewalTimers[this.getLeaseId(lease)] = setInterval(async () => await this.renew(lease, leaseDuration), leaseDuration / 3);
+
+    this.metricsService.incrementLockAcquisition(key, 'acquired');
+    this.metricsService.setLockOwnership(key, true, lease.fencingToken);
+
+    return lease;
+  }
+
+  async release(lease: LockLease) {
+    this.stopRenewal(lease);
+
+    if (lease.isOwned) {
+      lease.isOwned = false;
+
+      try {
+        // the lease is only deleted while it is still ours, since it may have expired and been acquired by another instance
+        await this.cacheBackend.deleteIfEquals(this.getLockKey(lease.key), lease.owner);
+      } catch (error) {
+        this.logger.error(`Error when releasing lock '${lease.key}'`);
+        this.logger.error(error);
+      }
+    }
+
+    this.metricsService.setLockOwnership(lease.key, false, lease.fencingToken);
+  }
+
+  async validateFencingToken(lease: LockLease): Promise<void> {
+    let latestFencingToken = Number(await this.cacheBackend.get(this.getFencingKey(lease.key)) ?? 0);
+
+    // a newer token means that another holder acquired the lock since, even if this one did not notice yet
+    if (!lease.isOwned || latestFencingToken > lease.fencingToken) {
+      throw new Error(`Stale fencing token ${lease.fencingToken} for lock '${lease.key}', the latest one being ${latestFencingToken}`);
+    }
+  }
+
+  private async renew(lease: LockLease, leaseDuration: number) {
+    try {
+      let isExtended = await this.cacheBackend.extendIfEquals(this.getLockKey(lease.key), lease.owner, leaseDuration);
+      if (isExtended) {
+        return;
+      }
+
+      this.logger.error(`Lost lock '${lease.key}' with fencing token ${lease.fencingToken}`);
+    } catch (error) {
+      this.logger.error(`Error when renewing lock '${lease.key}'`);
+      this.logger.error(error);
+    }
+
+    // once a renewal failed we can no longer be sure the lease is still ours
+    lease.isOwned = false;
+    this.stopRenewal(lease);
+
+    this.metricsService.incrementLockAcquisition(lease.key, 'lost');
+    this.metricsService.setLockOwnership(lease.key, false, lease.fencingToken);
+  }
+
+  private stopRenewal(lease: LockLease) {
+    let timer = this.renewalTimers[this.getLeaseId(lease)];
+    if (timer) {
+      clearInterval(timer);
+      delete this.renewalTimers[this.getLeaseId(lease)];
+    }
+  }
+
+  private getLeaseId(lease: LockLease): string {
+    return `${lease.key}:${lease.fencingToken}`;
+  }
+
+  private getLockKey(key: string): string {
+    return `${this.apiConfigService.getCacheNamespace()}:lock:${key}`;
+  }
+
+  private getFencingKey(key: string): string {
+    return `${this.getLockKey(key)}:fencing`;
+  }
+}
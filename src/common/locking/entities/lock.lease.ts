@@ -0,0 +1,12 @@
+export class LockLease {
+  key: string = '';
+
+  // unique value identifying the holder of the lease
+  owner: string = '';
+
+  // monotonically increasing across acquisitions of the same key, so that writes from a stale holder can be rejected
+  fencingToken: number = 0;
+
+  // becomes false as soon as the lease could not be renewed and another instance may have acquired it
+  isOwned: boolean = true;
+}
@@ -0,0 +1,6 @@
+export enum LockScope {
+  // locks only guard against concurrent runs inside the current process
+  process = 'process',
+  // locks are leased in the shared cache so that a job runs on a single instance across the fleet
+  cluster = 'cluster',
+}
@@ -0,0 +1,20 @@
+import { forwardRef, Module } from "@nestjs/common";
+import { ApiConfigModule } from "../api-config/api.config.module";
+import { CachingModule } from "../caching/caching.module";
+import { MetricsModule } from "../metrics/metrics.module";
+import { DistributedLockService } from "./distributed.lock.service";
+
+@Module({
+  imports: [
+    ApiConfigModule,
+    forwardRef(() => CachingModule),
+    forwardRef(() => MetricsModule),
+  ],
+  providers: [
+    DistributedLockService,
+  ],
+  exports: [
+    DistributedLockService,
+  ]
+})
+export class LockingModule { }
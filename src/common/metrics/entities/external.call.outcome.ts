@@ -0,0 +1,7 @@
+export enum ExternalCallOutcome {
+  success = 'success',
+  error = 'error',
+  timeout = 'timeout',
+  breakerOpen = 'breaker-open',
+  retry = 'retry',
+}
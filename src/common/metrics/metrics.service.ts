@@ -4,6 +4,9 @@ import { ApiConfigService } from "src/common/api-config/api.config.service";
 import { GatewayComponentRequest } from "../gateway/entities/gateway.component.request";
 import { GatewayService } from "../gateway/gateway.service";
 import { ProtocolService } from "../protocol/protocol.service";
+import { CacheFamilyStats } from "../caching/entities/cache.family.stats";
+import { CircuitBreakerState } from "../network/entities/circuit.breaker.state";
+import { ExternalCallOutcome } from "./entities/external.call.outcome";
 
 @Injectable()
 export class MetricsService {
@@ -19,6 +22,25 @@ export class MetricsService {
   private static lastProcessedNonceGauge: Gauge<string>;
   private static pendingApiHitGauge: Gauge<string>;
   private static cachedApiHitGauge: Gauge<string>;
+  private static localCacheEntriesGauge: Gauge<string>;
+  private static localCacheSizeGauge: Gauge<string>;
+  private static localCacheEvictionsGauge: Gauge<string>;
+  private static cacheHitGauge: Gauge<string>;
+  private static cacheMissGauge: Gauge<string>;
+  private static cachePendingHitGauge: Gauge<string>;
+  private static cacheMissDurationHistogram: Histogram<string>;
+  private static cacheCompressionRatioHistogram: Histogram<string>;
+  private static lockOwnershipGauge: Gauge<string>;
+  private static lockFencingTokenGauge: Gauge<string>;
+  private static lockAcquisitionsGauge: Gauge<string>;
+  private static elasticNodeDurationHistogram: Histogram<string>;
+  private static elasticNodeErrorsGauge: Gauge<string>;
+  private static elasticNodeHealthGauge: Gauge<string>;
+  private static elasticBatchSizeHistogram: Histogram<string>;
+  private static elasticMergedQueriesGauge: Gauge<string>;
+  private static gatewayNodeHealthGauge: Gauge<string>;
+  private static gatewayCircuitOpenGauge: Gauge<string>;
+  private static cacheFamilyStats: { [ family: string ]: CacheFamilyStats } = {};
   private static isDefaultMetricsRegistered: boolean = false;
 
   constructor(
@@ -57,7 +79,7 @@ export class MetricsService {
       MetricsService.externalCallsHistogram = new Histogram({
         name: 'external_apis',
         help: 'External Calls',
-        labelNames: [ 'system' ],
+        labelNames: [ 'system', 'outcome' ],
         buckets: [ ]
       });
     }
@@ -130,6 +152,152 @@ export class MetricsService {
       });
     }
 
+    if (!MetricsService.localCacheEntriesGauge) {
+      MetricsService.localCacheEntriesGauge = new Gauge({
+        name: 'local_cache_entries',
+        help: 'Number of entries in the local cache',
+      });
+    }
+
+    if (!MetricsService.localCacheSizeGauge) {
+      MetricsService.localCacheSizeGauge = new Gauge({
+        name: 'local_cache_size_bytes',
+        help: 'Estimated size in bytes of the local cache',
+      });
+    }
+
+    if (!MetricsService.localCacheEvictionsGauge) {
+      MetricsService.localCacheEvictionsGauge = new Gauge({
+        name: 'local_cache_evictions',
+        help: 'Number of local cache entries evicted because of the size limits',
+        labelNames: [ 'priority' ]
+      });
+    }
+
+    if (!MetricsService.cacheHitGauge) {
+      MetricsService.cacheHitGauge = new Gauge({
+        name: 'cache_hits',
+        help: 'Number of cache hits grouped by key family and source',
+        labelNames: [ 'family', 'source' ]
+      });
+    }
+
+    if (!MetricsService.cacheMissGauge) {
+      MetricsService.cacheMissGauge = new Gauge({
+        name: 'cache_misses',
+        help: 'Number of cache misses grouped by key family',
+        labelNames: [ 'family' ]
+      });
+    }
+
+    if (!MetricsService.cachePendingHitGauge) {
+      MetricsService.cachePendingHitGauge = new Gauge({
+        name: 'cache_pending_hits',
+        help: 'Number of cache misses deduplicated against a pending computation, grouped by key family',
+        labelNames: [ 'family' ]
+      });
+    }
+
+    if (!MetricsService.cacheMissDurationHistogram) {
+      MetricsService.cacheMissDurationHistogram = new Histogram({
+        name: 'cache_miss_duration',
+        help: 'Time spent computing missing cache values, grouped by key family',
+        labelNames: [ 'family' ],
+        buckets: [ ]
+      });
+    }
+
+    if (!MetricsService.cacheCompressionRatioHistogram) {
+      MetricsService.cacheCompressionRatioHistogram = new Histogram({
+        name: 'cache_compression_ratio',
+        help: 'Ratio between the original and the compressed size of remote cache values, grouped by key family',
+        labelNames: [ 'family' ],
+        buckets: [ 1, 2, 5, 10, 20, 50 ]
+      });
+    }
+
+    if (!MetricsService.lockOwnershipGauge) {
+      MetricsService.lockOwnershipGauge = new Gauge({
+        name: 'lock_owned',
+        help: 'Whether the current instance holds the distributed lock (1) or not (0)',
+        labelNames: [ 'key' ]
+      });
+    }
+
+    if (!MetricsService.lockFencingTokenGauge) {
+      MetricsService.lockFencingTokenGauge = new Gauge({
+        name: 'lock_fencing_token',
+        help: 'Fencing token of the last distributed lock lease acquired by the current instance',
+        labelNames: [ 'key' ]
+      });
+    }
+
+    if (!MetricsService.lockAcquisitionsGauge) {
+      MetricsService.lockAcquisitionsGauge = new Gauge({
+        name: 'lock_acquisitions',
+        help: 'Number of distributed lock acquisition attempts grouped by result (acquired, busy, lost)',
+        labelNames: [ 'key', 'result' ]
+      });
+    }
+
+    if (!MetricsService.elasticNodeDurationHistogram) {
+      MetricsService.elasticNodeDurationHistogram = new Histogram({
+        name: 'elastic_node_duration',
+        help: 'Duration of the requests sent to each elastic node',
+        labelNames: [ 'node' ],
+        buckets: [ ]
+      });
+    }
+
+    if (!MetricsService.elasticNodeErrorsGauge) {
+      MetricsService.elasticNodeErrorsGauge = new Gauge({
+        name: 'elastic_node_errors',
+        help: 'Number of failed requests sent to each elastic node',
+        labelNames: [ 'node' ]
+      });
+    }
+
+    if (!MetricsService.elasticNodeHealthGauge) {
+      MetricsService.elasticNodeHealthGauge = new Gauge({
+        name: 'elastic_node_health',
+        help: 'Whether each elastic node passed its last health check (1) or not (0)',
+        labelNames: [ 'node' ]
+      });
+    }
+
+    if (!MetricsService.elasticBatchSizeHistogram) {
+      MetricsService.elasticBatchSizeHistogram = new Histogram({
+        name: 'elastic_batch_size',
+        help: 'Number of queries sent together in each elastic search request',
+        labelNames: [ 'source' ],
+        buckets: [ 1, 2, 5, 10, 25, 50, 100 ]
+      });
+    }
+
+    if (!MetricsService.elasticMergedQueriesGauge) {
+      MetricsService.elasticMergedQueriesGauge = new Gauge({
+        name: 'elastic_merged_queries',
+        help: 'Number of elastic queries which were merged into a _msearch request',
+        labelNames: [ 'source' ]
+      });
+    }
+
+    if (!MetricsService.gatewayNodeHealthGauge) {
+      MetricsService.gatewayNodeHealthGauge = new Gauge({
+        name: 'gateway_node_health',
+        help: 'Whether each gateway node passed its last health check (1) or not (0)',
+        labelNames: [ 'node' ]
+      });
+    }
+
+    if (!MetricsService.gatewayCircuitOpenGauge) {
+      MetricsService.gatewayCircuitOpenGauge = new Gauge({
+        name: 'gateway_circuit_open',
+        help: 'Whether the circuit of each gateway component is open (1), half open (0.5) or closed (0)',
+        labelNames: [ 'component' ]
+      });
+    }
+
     if (!MetricsService.isDefaultMetricsRegistered) {
       MetricsService.isDefaultMetricsRegistered = true;
       collectDefaultMetrics();
@@ -149,8 +317,8 @@ export class MetricsService {
     MetricsService.pendingRequestsHistogram.set(count);
   }
 
-  setExternalCall(system: string, duration: number) {
-    MetricsService.externalCallsHistogram.labels(system).observe(duration);
+  setExternalCall(system: string, duration: number, outcome: ExternalCallOutcome = ExternalCallOutcome.success) {
+    MetricsService.externalCallsHistogram.labels(system, outcome).observe(duration);
   }
 
   setElasticDuration(index: string, duration: number) {
@@ -177,6 +345,120 @@ export class MetricsService {
     MetricsService.cachedApiHitGauge.inc({ endpoint });
   }
 
+  setLocalCacheEntries(count: number) {
+    MetricsService.localCacheEntriesGauge.set(count);
+  }
+
+  setLocalCacheSize(size: number) {
+    MetricsService.localCacheSizeGauge.set(size);
+  }
+
+  incrementLocalCacheEvictions(priority: string) {
+    MetricsService.localCacheEvictionsGauge.inc({ priority });
+  }
+
+  incrementCacheHit(family: string, source: 'local' | 'remote' | 'stale') {
+    MetricsService.cacheHitGauge.inc({ family, source });
+
+    let stats = this.getCacheFamilyStats(family);
+    switch (source) {
+      case 'local':
+        stats.localHits++;
+        break;
+      case 'remote':
+        stats.remoteHits++;
+        break;
+      case 'stale':
+        stats.staleHits++;
+        break;
+    }
+  }
+
+  incrementCachePendingHit(family: string) {
+    MetricsService.cachePendingHitGauge.inc({ family });
+
+    this.getCacheFamilyStats(family).pendingHits++;
+  }
+
+  setCacheMiss(family: string, duration: number) {
+    MetricsService.cacheMissGauge.inc({ family });
+    MetricsService.cacheMissDurationHistogram.labels(family).observe(duration);
+
+    let stats = this.getCacheFamilyStats(family);
+    stats.misses++;
+    stats.missCost += duration;
+  }
+
+  setCacheCompressionRatio(family: string, ratio: number) {
+    MetricsService.cacheCompressionRatioHistogram.labels(family).observe(ratio);
+  }
+
+  setLockOwnership(key: string, isOwned: boolean, fencingToken: number) {
+    MetricsService.lockOwnershipGauge.set({ key }, isOwned ? 1 : 0);
+    MetricsService.lockFencingTokenGauge.set({ key }, fencingToken);
+  }
+
+  incrementLockAcquisition(key: string, result: 'acquired' | 'busy' | 'lost') {
+    MetricsService.lockAcquisitionsGauge.inc({ key, result });
+  }
+
+  setElasticBatchSize(source: string, size: number) {
+    MetricsService.elasticBatchSizeHistogram.labels(source).observe(size);
+
+    if (size > 1) {
+      MetricsService.elasticMergedQueriesGauge.inc({ source }, size);
+    }
+  }
+
+  setElasticNodeDuration(node: string, duration: number) {
+    MetricsService.elasticNodeDurationHistogram.labels(node).observe(duration);
+  }
+
+  incrementElasticNodeError(node: string) {
+    MetricsService.elasticNodeErrorsGauge.inc({ node });
+  }
+
+  setElasticNodeHealth(node: string, isHealthy: boolean) {
+    MetricsService.elasticNodeHealthGauge.set({ node }, isHealthy ? 1 : 0);
+  }
+
+  setGatewayNodeHealth(node: string, isHealthy: boolean) {
+    MetricsService.gatewayNodeHealthGauge.set({ node }, isHealthy ? 1 : 0);
+  }
+
+  setGatewayCircuitState(component: string, state: CircuitBreakerState) {
+    let value = state === CircuitBreakerState.open ? 1 : state === CircuitBreakerState.halfOpen ? 0.5 : 0;
+
+    MetricsService.gatewayCircuitOpenGauge.set({ component }, value);
+  }
+
+  getCacheStats(): CacheFamilyStats[] {
+    let result = Object.values(MetricsService.cacheFamilyStats).map(stats => {
+      let hitCount = stats.localHits + stats.remoteHits + stats.staleHits + stats.pendingHits;
+      let totalCount = hitCount + stats.misses;
+
+      return {
+        ...stats,
+        hitRatio: totalCount > 0 ? hitCount / totalCount : 0,
+        averageMissDuration: stats.misses > 0 ? stats.missCost / stats.misses : 0,
+      };
+    });
+
+    return result.sort((a, b) => b.missCost - a.missCost);
+  }
+
+  private getCacheFamilyStats(family: string): CacheFamilyStats {
+    let stats = MetricsService.cacheFamilyStats[family];
+    if (!stats) {
+      stats = new CacheFamilyStats();
+      stats.family = family;
+
+      MetricsService.cacheFamilyStats[family] = stats;
+    }
+
+    return stats;
+  }
+
   async getMetrics(): Promise<string> {
     let shardIds = await this.protocolService.getShardIds();
     if (this.apiConfigService.getIsTransactionProcessorCronActive()) {
@@ -0,0 +1,35 @@
+import { ClientProxy, ReadPacket, WritePacket } from "@nestjs/microservices";
+import { CachingService } from "../caching/caching.service";
+
+// used when running as a single instance without redis: there are no other instances to notify,
+// so the cache events are applied to the local cache of this process only
+export class LocalClientProxy extends ClientProxy {
+  constructor(
+    private readonly cachingService: CachingService,
+  ) {
+    super();
+  }
+
+  async connect(): Promise<any> {}
+
+  close() {}
+
+  protected publish(_: ReadPacket, callback: (packet: WritePacket) => void): () => void {
+    callback({ response: undefined, isDisposed: true });
+    return () => {};
+  }
+
+  // emitted events carry no response, so nothing is resolved for them
+  protected async dispatchEvent(packet: ReadPacket): Promise<any> {
+    switch (packet.pattern) {
+      case 'deleteCacheKeys':
+        for (let key of packet.data) {
+          await this.cachingService.deleteInCacheLocal(key);
+        }
+        break;
+      case 'refreshCacheKey':
+        await this.cachingService.refreshCacheLocal(packet.data.key, packet.data.ttl);
+        break;
+    }
+  }
+}
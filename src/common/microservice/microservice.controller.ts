@@ -14,6 +14,11 @@ export class MicroserviceController {
   @EventPattern('deleteCacheKeys')
   async deleteCacheKey(keys: string[]) {
     for (let key of keys) {
+      // deployments of other networks sharing the same redis instance publish on the same channels
+      if (!this.cachingService.isInNamespace(key)) {
+        continue;
+      }
+
       this.logger.log(`Deleting local cache key ${key}`);
       await this.cachingService.deleteInCacheLocal(key);
     }
@@ -21,6 +26,10 @@ export class MicroserviceController {
 
   @EventPattern('refreshCacheKey')
   async refreshCacheKey(info: { key: string, ttl: number }) {
+    if (!this.cachingService.isInNamespace(info.key)) {
+      return;
+    }
+
     this.logger.log(`Refreshing local cache key ${info.key} with ttl ${info.ttl}`);
     await this.cachingService.refreshCacheLocal(info.key, info.ttl);
   }
@@ -3,7 +3,10 @@ import { ClientOptions, ClientProxyFactory, Transport } from '@nestjs/microservi
 import { ApiConfigModule } from '../api-config/api.config.module';
 import { ApiConfigService } from '../api-config/api.config.service';
 import { CachingModule } from '../caching/caching.module';
+import { CachingService } from '../caching/caching.service';
 import { MicroserviceController } from './microservice.controller';
+import { CacheBackendType } from '../caching/entities/cache.backend.type';
+import { LocalClientProxy } from './local.client.proxy';
 
 @Module({
   imports: [
@@ -16,7 +19,11 @@ import { MicroserviceController } from './microservice.controller';
   providers: [
     {
       provide: 'PUBSUB_SERVICE',
-      useFactory: (apiConfigService: ApiConfigService) => {
+      useFactory: (apiConfigService: ApiConfigService, cachingService: CachingService) => {
+        if (apiConfigService.getCacheBackendType() === CacheBackendType.memory) {
+          return new LocalClientProxy(cachingService);
+        }
+
         let clientOptions: ClientOptions = {
           transport: Transport.REDIS,
           options: {
@@ -31,7 +38,7 @@ import { MicroserviceController } from './microservice.controller';
 
         return ClientProxyFactory.create(clientOptions);
       },
-      inject: [ ApiConfigService ]
+      inject: [ ApiConfigService, CachingService ]
     }
   ],
   exports: [ 'PUBSUB_SERVICE' ]
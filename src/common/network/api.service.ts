@@ -1,14 +1,27 @@
 import { forwardRef, Inject, Injectable, Logger } from "@nestjs/common";
-import axios, { AxiosRequestConfig } from "axios";
+import axios, { AxiosRequestConfig, Method } from "axios";
 import Agent from 'agentkeepalive';
 import { MetricsService } from "src/common/metrics/metrics.service";
 import { ApiConfigService } from "../api-config/api.config.service";
 import { PerformanceProfiler } from "src/utils/performance.profiler";
+import { HttpRecorder } from "./http.recorder";
+import { HttpRecording } from "./entities/http.recording";
+import { HttpRecordingMode } from "./entities/http.recording.mode";
+import { ResiliencePolicy } from "./entities/resilience.policy";
+import { ResiliencePolicyName } from "./entities/resilience.policy.name";
+import { Bulkhead } from "./bulkhead";
+import { CircuitBreaker } from "./circuit.breaker";
+import { ExternalCallOutcome } from "../metrics/entities/external.call.outcome";
+import { RetryUtils } from "src/utils/retry.utils";
 
 @Injectable()
 export class ApiService {
   private readonly defaultTimeout: number = 30000;
   private keepaliveAgent: Agent | undefined | null = null;
+  private recorder: HttpRecorder | undefined;
+  private readonly policies: { [ name: string ]: ResiliencePolicy | undefined } = {};
+  private readonly bulkheads: { [ name: string ]: Bulkhead } = {};
+  private readonly circuitBreakers: { [ name: string ]: CircuitBreaker } = {};
 
   constructor(
     private readonly apiConfigService: ApiConfigService,
@@ -34,11 +47,67 @@ export class ApiService {
     return this.keepaliveAgent;
   }
 
+  private getRecorder(): HttpRecorder {
+    if (!this.recorder) {
+      this.recorder = new HttpRecorder(this.apiConfigService.getHttpRecordingPath());
+    }
+
+    return this.recorder;
+  }
+
+  private async execute(method: string, url: string, body: any, request: () => Promise<any>): Promise<any> {
+    let mode = this.apiConfigService.getHttpRecordingMode();
+    if (mode === HttpRecordingMode.disabled) {
+      return await request();
+    }
+
+    let recorder = this.getRecorder();
+
+    if (mode === HttpRecordingMode.replay) {
+      let recording = await recorder.read(method, url, body);
+      if (!recording) {
+        throw new Error(`No recorded response for ${method} ${url} (${recorder.getKey(method, url, body)})`);
+      }
+
+      let response = { status: recording.status, data: recording.data };
+      if (recording.error) {
+        throw { ...recording.error, response };
+      }
+
+      return response;
+    }
 
-  private getConfig(timeout: number | undefined): AxiosRequestConfig {
+    let recording = new HttpRecording();
+    recording.method = method;
+    recording.url = url;
+    recording.body = body;
+
+    try {
+      let response = await request();
+
+      recording.status = response.status;
+      recording.data = response.data;
+      await recorder.write(recording);
+
+      return response;
+    } catch (error: any) {
+      // network failures are not recorded, so that replaying them fails loudly instead of reproducing a timeout
+      if (error.response) {
+        recording.status = error.response.status;
+        recording.data = error.response.data;
+        recording.error = { message: error.message, name: error.name };
+        await recorder.write(recording);
+      }
+
+      throw error;
+    }
+  }
+
+
+  private getConfig(timeout: number | undefined, headers: { [ name: string ]: string } = {}): AxiosRequestConfig {
     timeout = timeout || this.defaultTimeout;
 
-    let headers = {};
+    headers = { ...headers };
 
     let rateLimiterSecret = this.apiConfigService.getRateLimiterSecret();
     if (rateLimiterSecret) {
@@ -62,48 +131,41 @@ export class ApiService {
     };
   }
 
-  async get(url: string, timeout: number | undefined = undefined, errorHandler?: (error: any) => Promise<boolean>): Promise<any> {
-    timeout = timeout || this.defaultTimeout;
-
-    let profiler = new PerformanceProfiler();
+  async get(url: string, timeout: number | undefined = undefined, errorHandler?: (error: any) => Promise<boolean>, policyName?: ResiliencePolicyName): Promise<any> {
+    return await this.request('GET', url, undefined, timeout, errorHandler, undefined, policyName);
+  }
 
-    try {
-      return await axios.get(url, this.getConfig(timeout));
-    } catch (error: any) {
-      let handled = false;
-      if (errorHandler) {
-        handled = await errorHandler(error);
-      } 
-      
-      if (!handled) {
-        let logger = new Logger(ApiService.name);
-        let customError = {
-          method: 'GET',
-          url,
-          response: error.response?.data,
-          status: error.response?.status,
-          message: error.message,
-          name: error.name,
-        };
+  async post(url: string, data: any, timeout: number | undefined = undefined, errorHandler?: (error: any) => Promise<boolean>, headers?: { [ name: string ]: string }, policyName?: ResiliencePolicyName): Promise<any> {
+    return await this.request('POST', url, data, timeout, errorHandler, headers, policyName);
+  }
 
-        logger.error(customError);
+  async head(url: string, timeout: number | undefined = undefined, errorHandler?: (error: any) => Promise<boolean>, policyName?: ResiliencePolicyName): Promise<any> {
+    return await this.request('HEAD', url, undefined, timeout, errorHandler, undefined, policyName);
+  }
 
-        throw customError;
-      }
-    } finally {
-      profiler.stop();
-      this.metricsService.setExternalCall(this.getHostname(url), profiler.duration);
-    }
+  async delete(url: string, data: any, timeout: number | undefined = undefined, errorHandler?: (error: any) => Promise<boolean>, policyName?: ResiliencePolicyName): Promise<any> {
+    return await this.request('DELETE', url, data, timeout, errorHandler, undefined, policyName);
   }
 
-  async post(url: string, data: any, timeout: number | undefined = undefined, errorHandler?: (error: any) => Promise<boolean>): Promise<any> {
-    timeout = timeout || this.defaultTimeout;
+  private async request(method: Method, url: string, data: any, timeout: number | undefined, errorHandler: ((error: any) => Promise<boolean>) | undefined, headers: { [ name: string ]: string } | undefined, policyName: ResiliencePolicyName | undefined): Promise<any> {
+    let policy = policyName ? this.getPolicy(policyName) : undefined;
+
+    timeout = timeout || policy?.timeout || this.defaultTimeout;
 
     let profiler = new PerformanceProfiler();
-    
+    let outcome = ExternalCallOutcome.success;
+
     try {
-      return await axios.post(url, data, this.getConfig(timeout));
+      let send = async () => await this.execute(method, url, data, async () => await axios.request({ ...this.getConfig(timeout, headers), method, url, data }));
+
+      if (policyName && policy) {
+        return await this.executePolicy(policyName, policy, url, send);
+      }
+
+      return await send();
     } catch (error: any) {
+      outcome = this.getOutcome(error);
+
       let handled = false;
       if (errorHandler) {
         handled = await errorHandler(error);
@@ -111,7 +173,7 @@ export class ApiService {
       
       if (!handled) {
         let customError = {
-          method: 'POST',
+          method,
           url,
           body: data,
           response: error.response?.data,
@@ -127,42 +189,64 @@ export class ApiService {
       }
     } finally {
       profiler.stop();
-      this.metricsService.setExternalCall(this.getHostname(url), profiler.duration);
+      this.metricsService.setExternalCall(this.getHostname(url), profiler.duration, outcome);
     }
   }
 
-  async head(url: string, timeout: number | undefined = undefined, errorHandler?: (error: any) => Promise<boolean>): Promise<any> {
-    timeout = timeout || this.defaultTimeout;
+  private getPolicy(name: ResiliencePolicyName): ResiliencePolicy | undefined {
+    if (!(name in this.policies)) {
+      this.policies[name] = this.apiConfigService.getResiliencePolicy(name);
+    }
 
-    let profiler = new PerformanceProfiler();
+    return this.policies[name];
+  }
 
-    try {
-      return await axios.head(url, this.getConfig(timeout));
-    } catch (error: any) {
-      let handled = false;
-      if (errorHandler) {
-        handled = await errorHandler(error);
-      } 
-      
-      if (!handled) {
-        let customError = {
-          method: 'HEAD',
-          url,
-          response: error.response?.data,
-          status: error.response?.status,
-          message: error.message,
-          name: error.name,
-        };
+  // requests of a policy wait for a free slot in its bulkhead, fail fast while its circuit is open and are retried on server and network errors
+  private async executePolicy(name: ResiliencePolicyName, policy: ResiliencePolicy, url: string, request: () => Promise<any>): Promise<any> {
+    let bulkhead = this.bulkheads[name];
+    if (!bulkhead) {
+      bulkhead = this.bulkheads[name] = new Bulkhead(policy.maxConcurrentRequests);
+    }
 
-        let logger = new Logger(ApiService.name);
-        logger.error(customError);
+    let circuitBreaker = this.circuitBreakers[name];
+    if (!circuitBreaker) {
+      circuitBreaker = this.circuitBreakers[name] = new CircuitBreaker(name, policy.failureThreshold, policy.resetTimeout);
+    }
 
-        throw customError;
+    return await bulkhead.execute(async () => await circuitBreaker.execute(async () => {
+      for (let attempt = 1; ; attempt++) {
+        let profiler = new PerformanceProfiler();
+
+        try {
+          return await request();
+        } catch (error) {
+          if (attempt >= policy.maxAttempts || !this.isServerError(error)) {
+            throw error;
+          }
+
+          profiler.stop();
+          this.metricsService.setExternalCall(this.getHostname(url), profiler.duration, ExternalCallOutcome.retry);
+
+          await RetryUtils.wait(RetryUtils.getBackoffDelay(policy.retryDelay, attempt));
+        }
       }
-    } finally {
-      profiler.stop();
-      this.metricsService.setExternalCall(this.getHostname(url), profiler.duration);
+    }, (error: any) => this.isServerError(error)));
+  }
+
+  private isServerError(error: any): boolean {
+    return error.response === undefined || error.response.status >= 500;
+  }
+
+  private getOutcome(error: any): ExternalCallOutcome {
+    if (CircuitBreaker.isOpenError(error)) {
+      return ExternalCallOutcome.breakerOpen;
     }
+
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return ExternalCallOutcome.timeout;
+    }
+
+    return ExternalCallOutcome.error;
   }
 
   private getHostname(url: string): string {
@@ -0,0 +1,28 @@
+export class Bulkhead {
+  private activeCount: number = 0;
+  private readonly queue: (() => void)[] = [];
+
+  constructor(
+    private readonly maxConcurrentRequests: number,
+  ) {}
+
+  async execute<T>(action: () => Promise<T>): Promise<T> {
+    if (this.activeCount >= this.maxConcurrentRequests) {
+      // the slot is handed over by the request that completes, so the active count stays the same
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    } else {
+      this.activeCount++;
+    }
+
+    try {
+      return await action();
+    } finally {
+      let next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.activeCount--;
+      }
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { CircuitBreakerState } from "./entities/circuit.breaker.state";
+
+export class CircuitBreaker {
+  private static readonly openErrorName = 'CircuitOpenError';
+
+  private state: CircuitBreakerState = CircuitBreakerState.closed;
+  private consecutiveFailures: number = 0;
+  private openedAt: number = 0;
+  private isTrialPending: boolean = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly failureThreshold: number = 5,
+    private readonly resetTimeout: number = 30000,
+    private readonly onStateChange?: (state: CircuitBreakerState) => void,
+  ) {}
+
+  static isOpenError(error: any): boolean {
+    return error?.name === CircuitBreaker.openErrorName;
+  }
+
+  getState(): CircuitBreakerState {
+    if (this.state === CircuitBreakerState.open && Date.now() - this.openedAt >= this.resetTimeout) {
+      this.setState(CircuitBreakerState.halfOpen);
+    }
+
+    return this.state;
+  }
+
+  async execute<T>(action: () => Promise<T>, isFailure: (error: any) => boolean = () => true): Promise<T> {
+    let state = this.getState();
+
+    // while half open, a single trial request decides whether the circuit closes again
+    if (state === CircuitBreakerState.open || (state === CircuitBreakerState.halfOpen && this.isTrialPending)) {
+      let error = new Error(`Circuit '${this.name}' is open`);
+      error.name = CircuitBreaker.openErrorName;
+
+      throw error;
+    }
+
+    let isTrial = state === CircuitBreakerState.halfOpen;
+    if (isTrial) {
+      this.isTrialPending = true;
+    }
+
+    try {
+      let result = await action();
+
+      this.markSuccess();
+
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.markFailure();
+      } else {
+        this.markSuccess();
+      }
+
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.isTrialPending = false;
+      }
+    }
+  }
+
+  private markSuccess() {
+    this.consecutiveFailures = 0;
+
+    if (this.state !== CircuitBreakerState.closed) {
+      this.setState(CircuitBreakerState.closed);
+    }
+  }
+
+  private markFailure() {
+    this.consecutiveFailures++;
+
+    if (this.state === CircuitBreakerState.halfOpen || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+
+      if (this.state !== CircuitBreakerState.open) {
+        this.setState(CircuitBreakerState.open);
+      }
+    }
+  }
+
+  private setState(state: CircuitBreakerState) {
+    this.state = state;
+
+    if (this.onStateChange) {
+      this.onStateChange(state);
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export enum CircuitBreakerState {
+  closed = 'closed',
+  open = 'open',
+  halfOpen = 'halfOpen',
+}
@@ -0,0 +1,5 @@
+export enum HttpRecordingMode {
+  disabled = 'disabled',
+  record = 'record',
+  replay = 'replay',
+}
@@ -0,0 +1,9 @@
+export class HttpRecording {
+  method: string = '';
+  url: string = '';
+  body: any = undefined;
+  status: number = 0;
+  data: any = undefined;
+  // only set when the recorded call failed, so that replaying it goes through the same error handling
+  error: { message: string, name: string } | undefined = undefined;
+}
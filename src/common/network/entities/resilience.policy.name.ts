@@ -0,0 +1,6 @@
+export enum ResiliencePolicyName {
+  keybase = 'keybase',
+  providers = 'providers',
+  dataApi = 'dataApi',
+  ipfs = 'ipfs',
+}
@@ -0,0 +1,15 @@
+export class ResiliencePolicy {
+  timeout: number = 30000;
+
+  // total number of attempts, including the first one
+  maxAttempts: number = 1;
+
+  // base delay of the jittered exponential backoff between attempts
+  retryDelay: number = 0;
+
+  maxConcurrentRequests: number = 100;
+
+  failureThreshold: number = 10;
+
+  resetTimeout: number = 30000;
+}
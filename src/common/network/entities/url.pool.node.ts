@@ -0,0 +1,10 @@
+export class UrlPoolNode {
+  url: string = '';
+
+  isHealthy: boolean = true;
+
+  // exponentially weighted moving average of the request durations, in milliseconds
+  latency: number = 0;
+
+  errors: number = 0;
+}
@@ -0,0 +1,4 @@
+export enum UrlSelectionStrategy {
+  roundRobin = 'roundRobin',
+  leastLatency = 'leastLatency',
+}
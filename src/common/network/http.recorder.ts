@@ -0,0 +1,47 @@
+import { createHash } from "crypto";
+import { HttpRecording } from "./entities/http.recording";
+
+const { existsSync, mkdirSync, promises } = require('fs');
+
+export class HttpRecorder {
+  constructor(
+    private readonly path: string,
+  ) {
+    if (!existsSync(path)) {
+      mkdirSync(path, { recursive: true });
+    }
+  }
+
+  getKey(method: string, url: string, body: any): string {
+    let hostname = new URL(url).hostname;
+    let urlHash = this.getHash(url);
+    let bodyHash = this.getHash(body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body));
+
+    return `${method.toLowerCase()}_${hostname}_${urlHash}_${bodyHash}`;
+  }
+
+  async read(method: string, url: string, body: any): Promise<HttpRecording | undefined> {
+    let fileName = this.getFileName(method, url, body);
+    if (!existsSync(fileName)) {
+      return undefined;
+    }
+
+    let contents = await promises.readFile(fileName, { encoding: 'utf8' });
+
+    return JSON.parse(contents);
+  }
+
+  async write(recording: HttpRecording): Promise<void> {
+    let fileName = this.getFileName(recording.method, recording.url, recording.body);
+
+    await promises.writeFile(fileName, JSON.stringify(recording, null, 2));
+  }
+
+  private getFileName(method: string, url: string, body: any): string {
+    return `${this.path}${this.getKey(method, url, body)}.json`;
+  }
+
+  private getHash(value: string): string {
+    return createHash('sha256').update(value).digest('hex').slice(0, 16);
+  }
+}
@@ -0,0 +1,122 @@
+import { PerformanceProfiler } from "src/utils/performance.profiler";
+import { RetryUtils } from "src/utils/retry.utils";
+import { UrlPoolNode } from "./entities/url.pool.node";
+import { UrlSelectionStrategy } from "./entities/url.selection.strategy";
+
+export class UrlPool {
+  // weight of the latest request duration in the latency average
+  private static readonly latencyWeight = 0.2;
+
+  private readonly nodes: UrlPoolNode[];
+  private requestCount: number = 0;
+
+  constructor(
+    urls: string[],
+    private readonly strategy: UrlSelectionStrategy = UrlSelectionStrategy.roundRobin,
+    private readonly maxAttempts: number = 1,
+    // when set, failed requests are retried after a jittered exponential backoff, possibly on the same url
+    private readonly retryDelay: number = 0,
+  ) {
+    this.nodes = urls.map(url => {
+      let node = new UrlPoolNode();
+      node.url = url;
+
+      return node;
+    });
+  }
+
+  getNodes(): UrlPoolNode[] {
+    return this.nodes;
+  }
+
+  select(excludedUrls: string[] = []): string {
+    if (this.nodes.length === 0) {
+      throw new Error('No urls present in pool');
+    }
+
+    let candidates = this.nodes.filter(node => !excludedUrls.includes(node.url));
+    if (candidates.length === 0) {
+      candidates = this.nodes;
+    }
+
+    // when every remaining node is unhealthy it is still better to try one of them than to fail right away
+    let healthyCandidates = candidates.filter(node => node.isHealthy);
+    if (healthyCandidates.length > 0) {
+      candidates = healthyCandidates;
+    }
+
+    if (this.strategy === UrlSelectionStrategy.leastLatency) {
+      return [...candidates].sort((a, b) => a.latency - b.latency)[0].url;
+    }
+
+    return candidates[this.requestCount++ % candidates.length].url;
+  }
+
+  setHealthy(url: string, isHealthy: boolean) {
+    let node = this.getNode(url);
+    if (node) {
+      node.isHealthy = isHealthy;
+    }
+  }
+
+  markSuccess(url: string, duration: number) {
+    let node = this.getNode(url);
+    if (!node) {
+      return;
+    }
+
+    node.latency = node.latency === 0 ? duration : node.latency * (1 - UrlPool.latencyWeight) + duration * UrlPool.latencyWeight;
+  }
+
+  markFailure(url: string) {
+    let node = this.getNode(url);
+    if (!node) {
+      return;
+    }
+
+    // taken out of rotation until the next successful health check
+    node.errors++;
+    node.isHealthy = false;
+  }
+
+  async execute<T>(request: (url: string) => Promise<T>, isRetryable: (error: any) => boolean = () => true): Promise<T> {
+    let attemptedUrls: string[] = [];
+
+    while (true) {
+      let url = this.select(attemptedUrls);
+      attemptedUrls.push(url);
+
+      let profiler = new PerformanceProfiler();
+
+      try {
+        let result = await request(url);
+
+        profiler.stop();
+        this.markSuccess(url, profiler.duration);
+
+        return result;
+      } catch (error) {
+        profiler.stop();
+
+        if (!isRetryable(error)) {
+          throw error;
+        }
+
+        this.markFailure(url);
+
+        let maxAttempts = this.retryDelay > 0 ? this.maxAttempts : Math.min(this.maxAttempts, this.nodes.length);
+        if (attemptedUrls.length >= maxAttempts) {
+          throw error;
+        }
+
+        if (this.retryDelay > 0) {
+          await RetryUtils.wait(RetryUtils.getBackoffDelay(this.retryDelay, attemptedUrls.length));
+        }
+      }
+    }
+  }
+
+  private getNode(url: string): UrlPoolNode | undefined {
+    return this.nodes.find(node => node.url === url);
+  }
+}
@@ -11,6 +11,7 @@ export class ProtocolService {
   constructor(
     @Inject(forwardRef(() => GatewayService))
     private readonly gatewayService: GatewayService,
+    @Inject(forwardRef(() => CachingService))
     private readonly cachingService: CachingService,
     @Inject(forwardRef(() => ElasticService))
     private readonly elasticService: ElasticService
@@ -51,6 +52,37 @@ export class ProtocolService {
     return result;
   }
 
+  async getSecondsRemainingUntilNextEpoch(): Promise<number> {
+    let epochEndTimestamp = await this.cachingService.getOrSetCache(
+      CacheInfo.EpochEndTimestamp.key,
+      async () => await this.getEpochEndTimestampRaw(),
+      CacheInfo.EpochEndTimestamp.ttl,
+    );
+
+    let currentTimestamp = Math.round(Date.now() / 1000);
+
+    return Math.max(epochEndTimestamp - currentTimestamp, 0);
+  }
+
+  private async getEpochEndTimestampRaw(): Promise<number> {
+    const [
+      {
+        config: { erd_round_duration, erd_rounds_per_epoch },
+      },
+      {
+        status: { erd_rounds_passed_in_current_epoch },
+      },
+    ] = await Promise.all([
+      this.gatewayService.get('network/config', GatewayComponentRequest.networkConfig),
+      this.gatewayService.get('network/status/4294967295', GatewayComponentRequest.networkStatus),
+    ]);
+
+    let roundsRemaining = erd_rounds_per_epoch - erd_rounds_passed_in_current_epoch;
+    let secondsRemaining = roundsRemaining * erd_round_duration / 1000;
+
+    return Math.round(Date.now() / 1000) + secondsRemaining;
+  }
+
   private async getGenesisTimestamp(): Promise<number> {
     return await this.cachingService.getOrSetCache(
       CacheInfo.GenesisTimestamp.key,
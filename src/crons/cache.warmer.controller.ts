@@ -0,0 +1,22 @@
+import { Controller, Get } from "@nestjs/common";
+import { ApiResponse } from "@nestjs/swagger";
+import { CacheWarmerRegistryService } from "./cache.warmer.registry.service";
+import { CacheWarmerInfo } from "./entities/cache.warmer.info";
+
+@Controller()
+export class CacheWarmerController {
+  constructor(
+    private readonly cacheWarmerRegistryService: CacheWarmerRegistryService,
+  ) {}
+
+  @Get("/warmers")
+  @ApiResponse({
+    status: 200,
+    description: 'The cache warmers registered through the Warm decorator',
+    type: CacheWarmerInfo,
+    isArray: true
+  })
+  getWarmers(): CacheWarmerInfo[] {
+    return this.cacheWarmerRegistryService.getWarmers();
+  }
+}
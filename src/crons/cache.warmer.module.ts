@@ -5,17 +5,24 @@ import { CacheWarmerService } from './cache.warmer.service';
 import { EndpointsServicesModule } from '../endpoints/endpoints.services.module';
 import { MicroserviceModule } from 'src/common/microservice/microservice.module';
 import { PluginModule } from 'src/plugins/plugin.module';
+import { DiscoveryModule } from '@nestjs/core';
+import { CacheWarmerRegistryService } from './cache.warmer.registry.service';
+import { CacheWarmerController } from './cache.warmer.controller';
 
 @Module({
   imports: [
     ScheduleModule.forRoot(),
+    DiscoveryModule,
     forwardRef(() => CommonModule),
     forwardRef(() => EndpointsServicesModule),
     MicroserviceModule,
     PluginModule,
   ],
+  controllers: [
+    CacheWarmerController,
+  ],
   providers: [
-    CacheWarmerService,
+    CacheWarmerService, CacheWarmerRegistryService,
   ],
 })
 export class CacheWarmerModule {}
@@ -0,0 +1,94 @@
+import { Inject, Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { DiscoveryService, MetadataScanner } from "@nestjs/core";
+import { ClientProxy } from "@nestjs/microservices";
+import { SchedulerRegistry } from "@nestjs/schedule";
+import { CronJob } from "cron";
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { CachingService } from "src/common/caching/caching.service";
+import { WarmOptions } from "src/decorators/warm";
+import { DecoratorUtils } from "src/utils/decorator.utils";
+import { Locker } from "src/utils/locker";
+import { PerformanceProfiler } from "src/utils/performance.profiler";
+import { CacheWarmerInfo } from "./entities/cache.warmer.info";
+
+@Injectable()
+export class CacheWarmerRegistryService implements OnModuleInit {
+  private readonly logger: Logger;
+  private readonly warmers: { [ key: string ]: { info: CacheWarmerInfo, handler: () => Promise<any> } } = {};
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly apiConfigService: ApiConfigService,
+    private readonly cachingService: CachingService,
+    @Inject('PUBSUB_SERVICE') private clientProxy: ClientProxy,
+  ) {
+    this.logger = new Logger(CacheWarmerRegistryService.name);
+  }
+
+  onModuleInit() {
+    for (let wrapper of this.discoveryService.getProviders()) {
+      let instance = wrapper.instance;
+      if (!instance || typeof instance !== 'object') {
+        continue;
+      }
+
+      this.metadataScanner.scanFromPrototype(instance, Object.getPrototypeOf(instance), (methodName: string) => {
+        let options = DecoratorUtils.getMethodDecorator(WarmOptions, instance[methodName]);
+        if (options) {
+          this.register(options, `${instance.constructor.name}.${methodName}`, async () => await instance[methodName]());
+        }
+      });
+    }
+  }
+
+  getWarmers(): CacheWarmerInfo[] {
+    return Object.values(this.warmers).map(warmer => warmer.info);
+  }
+
+  async runWarmer(key: string) {
+    let warmer = this.warmers[key];
+    if (!warmer) {
+      throw new Error(`No cache warmer registered for key '${key}'`);
+    }
+
+    await Locker.lock(`${warmer.info.source} warmer`, async () => {
+      let profiler = new PerformanceProfiler();
+
+      let value = await warmer.handler();
+      await this.cachingService.setCache(key, value, warmer.info.ttl);
+      await this.clientProxy.emit('refreshCacheKey', { key: this.cachingService.getNamespacedKey(key), ttl: warmer.info.ttl });
+
+      profiler.stop();
+
+      warmer.info.lastRun = Math.round(Date.now() / 1000);
+      warmer.info.lastDuration = Math.round(profiler.duration);
+    }, true);
+  }
+
+  private register(options: WarmOptions, source: string, handler: () => Promise<any>) {
+    let key = options.cacheInfo.key;
+
+    // the same service may be provided by several modules, in which case it is only warmed once
+    if (this.warmers[key]) {
+      return;
+    }
+
+    let cron = this.apiConfigService.getIsFastWarmerCronActive() ? options.fastCron ?? options.cron : options.cron;
+
+    let info = new CacheWarmerInfo();
+    info.key = key;
+    info.ttl = options.cacheInfo.ttl;
+    info.cron = cron;
+    info.source = source;
+
+    this.warmers[key] = { info, handler };
+
+    const cronJob = new CronJob(cron, async () => await this.runWarmer(key));
+    this.schedulerRegistry.addCronJob(`warm:${key}`, cronJob);
+    cronJob.start();
+
+    this.logger.log(`Registered cache warmer for key '${key}' from ${source} with cron '${cron}'`);
+  }
+}
@@ -1,44 +1,36 @@
 import { Inject, Injectable } from "@nestjs/common";
 import { Cron, CronExpression, SchedulerRegistry } from "@nestjs/schedule";
-import { IdentitiesService } from "src/endpoints/identities/identities.service";
-import { NodeService } from "src/endpoints/nodes/node.service";
-import { ProviderService } from "src/endpoints/providers/provider.service";
 import { Constants } from "src/utils/constants";
 import { Locker } from "src/utils/locker";
 import { CachingService } from "src/common/caching/caching.service";
 import { ClientProxy } from "@nestjs/microservices";
 import { ApiConfigService } from "src/common/api-config/api.config.service";
-import { NetworkService } from "src/endpoints/network/network.service";
 import { AccountService } from "src/endpoints/accounts/account.service";
 import { CronJob } from "cron";
 import { KeybaseService } from "src/common/keybase/keybase.service";
 import { DataApiService } from "src/common/external/data.api.service";
 import { GatewayService } from "src/common/gateway/gateway.service";
 import { DataQuoteType } from "src/common/external/entities/data.quote.type";
-import { EsdtService } from "src/endpoints/esdt/esdt.service";
 import { CacheInfo } from "src/common/caching/entities/cache.info";
 import { TokenAssetService } from "src/endpoints/tokens/token.asset.service";
 import { PluginService } from "src/common/plugins/plugin.service";
 import { GatewayComponentRequest } from "src/common/gateway/entities/gateway.component.request";
+import { CacheWarmerRegistryService } from "./cache.warmer.registry.service";
 
 @Injectable()
 export class CacheWarmerService {
   constructor(
-    private readonly nodeService: NodeService,
-    private readonly esdtService: EsdtService,
-    private readonly identitiesService: IdentitiesService,
-    private readonly providerService: ProviderService,
     private readonly keybaseService: KeybaseService,
     private readonly dataApiService: DataApiService,
     private readonly cachingService: CachingService,
     @Inject('PUBSUB_SERVICE') private clientProxy: ClientProxy,
     private readonly apiConfigService: ApiConfigService,
-    private readonly networkService: NetworkService,
     private readonly accountService: AccountService,
     private readonly gatewayService: GatewayService,
     private readonly schedulerRegistry: SchedulerRegistry,
     private readonly tokenAssetService: TokenAssetService,
     private readonly pluginService: PluginService,
+    private readonly cacheWarmerRegistryService: CacheWarmerRegistryService,
   ) { 
     this.configCronJob(
       'handleKeybaseAgainstKeybasePubInvalidations', 
@@ -53,13 +45,6 @@ export class CacheWarmerService {
       CronExpression.EVERY_10_MINUTES, 
       async () => await this.handleKeybaseAgainstCacheInvalidations()
     );
-
-    this.configCronJob(
-      'handleIdentityInvalidations', 
-      CronExpression.EVERY_MINUTE, 
-      CronExpression.EVERY_5_MINUTES, 
-      async () => await this.handleIdentityInvalidations()
-    );
   }
 
   private configCronJob(name: string, fastExpression: string, normalExpression: string, callback: () => Promise<void>) {
@@ -69,40 +54,6 @@ export class CacheWarmerService {
     cronJob.start();
   }
 
-  @Cron(CronExpression.EVERY_MINUTE)
-  async handleNodeInvalidations() {
-    await Locker.lock('Nodes invalidations', async () => {
-      let nodes = await this.nodeService.getAllNodesRaw();
-      await this.invalidateKey(CacheInfo.Nodes.key, nodes, CacheInfo.Nodes.ttl);
-    }, true);
-  }
-
-  @Cron(CronExpression.EVERY_MINUTE)
-  async handleEsdtTokenInvalidations() {
-    await Locker.lock('Esdt tokens invalidations', async () => {
-      let tokens = await this.esdtService.getAllEsdtTokensRaw();
-      await this.invalidateKey(CacheInfo.AllEsdtTokens.key, tokens, CacheInfo.AllEsdtTokens.ttl);
-    }, true);
-  }
-
-  async handleIdentityInvalidations() {
-    await Locker.lock('Identities invalidations', async () => {
-      let identities = await this.identitiesService.getAllIdentitiesRaw();
-      await this.invalidateKey(CacheInfo.Identities.key, identities, CacheInfo.Identities.ttl);
-    }, true);
-  }
-
-  @Cron(CronExpression.EVERY_MINUTE)
-  async handleProviderInvalidations() {
-    await Locker.lock('Providers invalidations', async () => {
-      let providers = await this.providerService.getAllProvidersRaw();
-      await this.invalidateKey(CacheInfo.Providers.key, providers, CacheInfo.Providers.ttl);
-
-      let providersWithStakeInformation = await this.providerService.getProvidersWithStakeInformationRaw();
-      await this.invalidateKey(CacheInfo.ProvidersWithStakeInformation.key, providersWithStakeInformation, CacheInfo.ProvidersWithStakeInformation.ttl);
-    }, true);
-  }
-
   async handleKeybaseAgainstCacheInvalidations() {
     await Locker.lock('Keybase against cache invalidations', async () => {
       let nodesAndProvidersKeybases = await this.keybaseService.confirmKeybasesAgainstCache();
@@ -112,9 +63,10 @@ export class CacheWarmerService {
         this.invalidateKey(CacheInfo.IdentityProfilesKeybases.key, identityProfilesKeybases, CacheInfo.IdentityProfilesKeybases.ttl)
       ]);
 
-      await this.handleNodeInvalidations();
-      await this.handleProviderInvalidations();
-      await this.handleIdentityInvalidations();
+      await this.cacheWarmerRegistryService.runWarmer(CacheInfo.Nodes.key);
+      await this.cacheWarmerRegistryService.runWarmer(CacheInfo.Providers.key);
+      await this.cacheWarmerRegistryService.runWarmer(CacheInfo.ProvidersWithStakeInformation.key);
+      await this.cacheWarmerRegistryService.runWarmer(CacheInfo.Identities.key);
     }, true);
   }
 
@@ -137,14 +89,6 @@ export class CacheWarmerService {
     }
   }
 
-  @Cron(CronExpression.EVERY_MINUTE)
-  async handleEconomicsInvalidations() {
-    await Locker.lock('Economics invalidations', async () => {
-      let economics = await this.networkService.getEconomicsRaw();
-      await this.invalidateKey(CacheInfo.Economics.key, economics, CacheInfo.Economics.ttl);
-    }, true);
-  }
-
   @Cron(CronExpression.EVERY_MINUTE)
   async handleAccountInvalidations() {
     await Locker.lock('Accounts invalidations', async () => {
@@ -189,6 +133,6 @@ export class CacheWarmerService {
   }
 
   private async refreshCacheKey(key: string, ttl: number) {
-    await this.clientProxy.emit('refreshCacheKey', { key, ttl });
+    await this.clientProxy.emit('refreshCacheKey', { key: this.cachingService.getNamespacedKey(key), ttl });
   }
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class CacheWarmerInfo {
+  @ApiProperty({ description: 'Cache key being warmed' })
+  key: string = '';
+
+  @ApiProperty()
+  ttl: number = 0;
+
+  @ApiProperty({ description: 'Active cron expression' })
+  cron: string = '';
+
+  @ApiProperty({ description: 'Service method computing the value, e.g. NodeService.getAllNodesRaw' })
+  source: string = '';
+
+  @ApiProperty({ description: 'Unix timestamp of the last completed run' })
+  lastRun?: number;
+
+  @ApiProperty({ description: 'Duration in milliseconds of the last completed run' })
+  lastDuration?: number;
+}
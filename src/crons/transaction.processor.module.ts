@@ -4,7 +4,6 @@ import { CommonModule } from 'src/common/common.module';
 import { MetricsModule } from 'src/common/metrics/metrics.module';
 import { MicroserviceModule } from 'src/common/microservice/microservice.module';
 import { NftModule } from 'src/endpoints/nfts/nft.module';
-import { NodeModule } from 'src/endpoints/nodes/node.module';
 import { ShardModule } from 'src/endpoints/shards/shard.module';
 import { TransactionModule } from 'src/endpoints/transactions/transaction.module';
 import { EventsGateway } from 'src/websockets/events.gateway';
@@ -17,7 +16,6 @@ import { TransactionProcessorService } from './transaction.processor.service';
     forwardRef(() => TransactionModule),
     forwardRef(() => MetricsModule),
     forwardRef(() => ShardModule),
-    forwardRef(() => NodeModule),
     forwardRef(() => NftModule),
     MicroserviceModule,
   ],
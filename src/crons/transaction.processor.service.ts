@@ -7,10 +7,13 @@ import { CachingService } from "src/common/caching/caching.service";
 import { AddressUtils } from "src/utils/address.utils";
 import { PerformanceProfiler } from "src/utils/performance.profiler";
 import { EventsGateway } from "src/websockets/events.gateway";
-import { NodeService } from "src/endpoints/nodes/node.service";
 import { ShardTransaction, TransactionProcessor } from "@elrondnetwork/transaction-processor";
 import { TransactionUtils } from "src/utils/transaction.utils";
 import { CacheInfo } from "src/common/caching/entities/cache.info";
+import { CacheTag } from "src/common/caching/entities/cache.tag";
+import { BinaryUtils } from "src/utils/binary.utils";
+import { Locker } from "src/utils/locker";
+import { DistributedLockService } from "src/common/locking/distributed.lock.service";
 
 @Injectable()
 export class TransactionProcessorService {
@@ -23,8 +26,8 @@ export class TransactionProcessorService {
       private readonly eventsGateway: EventsGateway,
       private readonly apiConfigService: ApiConfigService,
       private readonly metricsService: MetricsService,
+      private readonly distributedLockService: DistributedLockService,
       @Inject('PUBSUB_SERVICE') private clientProxy: ClientProxy,
-      private readonly nodeService: NodeService,
       // private readonly nftExtendedAttributesService: NftExtendedAttributesService,
   ) {
     this.logger = new Logger(TransactionProcessorService.name);
@@ -42,85 +45,106 @@ export class TransactionProcessorService {
     }
 
     try {
-      await this.transactionProcessor.start({
-        gatewayUrl: this.apiConfigService.getGatewayUrl(),
-        maxLookBehind: this.apiConfigService.getTransactionProcessorMaxLookBehind(),
-        onTransactionsReceived: async (shard, nonce, transactions) => {
-          let profiler = new PerformanceProfiler('Processing new transactions');
-    
-          this.logger.log(`New transactions: ${transactions.length} for shard ${shard} and nonce ${nonce}`);
-    
-          let allInvalidatedKeys = [];
-
-          for (let transaction of transactions) {
-            // this.logger.log(`Transferred ${transaction.value} from ${transaction.sender} to ${transaction.receiver}`);
+      await Locker.lock('Transaction processor', async (lease) => {
+        await this.transactionProcessor.start({
+          gatewayUrl: this.apiConfigService.getGatewayUrl(),
+          maxLookBehind: this.apiConfigService.getTransactionProcessorMaxLookBehind(),
+          onTransactionsReceived: async (shard, nonce, transactions) => {
+            let profiler = new PerformanceProfiler('Processing new transactions');
+  
+            this.logger.log(`New transactions: ${transactions.length} for shard ${shard} and nonce ${nonce}`);
+  
+            let invalidationTags: string[] = [];
+
+            for (let transaction of transactions) {
+              // this.logger.log(`Transferred ${transaction.value} from ${transaction.sender} to ${transaction.receiver}`);
+        
+              if (!AddressUtils.isSmartContractAddress(transaction.sender)) {
+                this.eventsGateway.onAccountBalanceChanged(transaction.sender);
+              }
+  
+              if (!AddressUtils.isSmartContractAddress(transaction.receiver)) {
+                this.eventsGateway.onAccountBalanceChanged(transaction.receiver);
+              }
+
+              if (transaction.data) {
+                const metadataResult = TransactionUtils.tryExtractNftMetadataFromNftCreateTransaction(transaction);
+                if (metadataResult) {
+                  this.logger.log(`Detected NFT Create for collection with identifier '${metadataResult.collection}'. Raw attributes: '${metadataResult.attributes}'`);
+
+                  // this.nftExtendedAttributesService.tryGetExtendedAttributesFromBase64EncodedAttributes(BinaryUtils.base64Encode(metadataResult.attributes));
+                }
+              }
           
-            if (!AddressUtils.isSmartContractAddress(transaction.sender)) {
-              this.eventsGateway.onAccountBalanceChanged(transaction.sender);
-            }
-    
-            if (!AddressUtils.isSmartContractAddress(transaction.receiver)) {
-              this.eventsGateway.onAccountBalanceChanged(transaction.receiver);
+              invalidationTags.push(
+                ...this.getTokenPropertiesTags(transaction),
+                ...this.getOwnerTags(transaction),
+                ...this.getCollectionPropertiesTags(transaction),
+              );
             }
 
-            if (transaction.data) {
-              const metadataResult = TransactionUtils.tryExtractNftMetadataFromNftCreateTransaction(transaction);
-              if (metadataResult) {
-                this.logger.log(`Detected NFT Create for collection with identifier '${metadataResult.collection}'. Raw attributes: '${metadataResult.attributes}'`);
+            let distinctSendersAndReceivers = transactions.selectMany(transaction => [ transaction.sender, transaction.receiver ]).distinct();
+            invalidationTags.push(...distinctSendersAndReceivers.map(address => CacheTag.Address(address)));
 
-                // this.nftExtendedAttributesService.tryGetExtendedAttributesFromBase64EncodedAttributes(BinaryUtils.base64Encode(metadataResult.attributes));
-              }
+            let invalidatedKeys = await this.cachingService.invalidateTags(invalidationTags.distinct());
+
+            // the esdts of an address are only cached locally, without any tags registered in redis
+            invalidatedKeys.push(...distinctSendersAndReceivers.map(address => CacheInfo.AddressEsdts(address).key));
+
+            if (invalidatedKeys.length > 0) {
+              this.clientProxy.emit('deleteCacheKeys', invalidatedKeys.map(key => this.cachingService.getNamespacedKey(key)));
+            }
+        
+            profiler.stop();
+          },
+          getLastProcessedNonce: async (shardId) => {
+            return await this.cachingService.getCache<number>(CacheInfo.ShardNonce(shardId).key);
+          },
+          setLastProcessedNonce: async (shardId, nonce) => {
+            // another instance may have taken over the lock, in which case it is the one advancing the nonces
+            if (lease) {
+              await this.distributedLockService.validateFencingToken(lease);
             }
-            
-            let invalidatedTokenProperties = await this.cachingService.tryInvalidateTokenProperties(transaction);
-            let invalidatedTokensOnAccountKeys = await this.cachingService.tryInvalidateTokensOnAccount(transaction);
-            let invalidatedTokenBalancesKeys = await this.cachingService.tryInvalidateTokenBalance(transaction);
-            let invalidatedOwnerKeys = await this.tryInvalidateOwner(transaction);
-            let invalidatedCollectionPropertiesKeys = await this.tryInvalidateCollectionProperties(transaction);
-    
-            allInvalidatedKeys.push(
-              ...invalidatedTokenProperties,
-              ...invalidatedTokensOnAccountKeys, 
-              ...invalidatedTokenBalancesKeys,
-              ...invalidatedOwnerKeys,
-              ...invalidatedCollectionPropertiesKeys
-            );
-          }
-    
-          let uniqueInvalidatedKeys = allInvalidatedKeys.distinct();
-          if (uniqueInvalidatedKeys.length > 0) {
-            this.clientProxy.emit('deleteCacheKeys', uniqueInvalidatedKeys);
-          }
 
-          let distinctSendersAndReceivers = transactions.selectMany(transaction => [ transaction.sender, transaction.receiver ]).distinct();
-          let txCountInvalidationKeys = distinctSendersAndReceivers.map(address => CacheInfo.TxCount(address).key);
-          await this.cachingService.batchDelCache(txCountInvalidationKeys);
-          
-          profiler.stop();
-        },
-        getLastProcessedNonce: async (shardId) => {
-          return await this.cachingService.getCache<number>(CacheInfo.ShardNonce(shardId).key);
-        },
-        setLastProcessedNonce: async (shardId, nonce) => {
-          this.metricsService.setLastProcessedNonce(shardId, nonce);
-          await this.cachingService.setCache<number>(CacheInfo.ShardNonce(shardId).key, nonce, CacheInfo.ShardNonce(shardId).ttl);
-        }
+            this.metricsService.setLastProcessedNonce(shardId, nonce);
+            await this.cachingService.setCache<number>(CacheInfo.ShardNonce(shardId).key, nonce, CacheInfo.ShardNonce(shardId).ttl);
+          }
+        });
       });
     } finally {
       this.isProcessing = false;
     }
   }
 
-  async tryInvalidateOwner(transaction: ShardTransaction): Promise<string[]> {
-    let transactionFuncName = transaction.getDataFunctionName();
-    if (transactionFuncName !== 'mergeValidatorToDelegationWithWhitelist') {
+  private getTokenPropertiesTags(transaction: ShardTransaction): string[] {
+    if (transaction.receiver !== this.apiConfigService.getEsdtContractAddress()) {
       return [];
     }
 
-    return await this.nodeService.deleteOwnersForAddressInCache(transaction.sender);
+    if (transaction.getDataFunctionName() !== 'controlChanges') {
+      return [];
+    }
+
+    let args = transaction.getDataArgs();
+    if (!args || args.length === 0) {
+      return [];
+    }
+
+    let tokenIdentifier = BinaryUtils.hexToString(args[0]);
+    this.logger.log(`Invalidating token properties for token ${tokenIdentifier}`);
+
+    return [ CacheTag.Token(tokenIdentifier) ];
   }
 
-  async tryInvalidateCollectionProperties(transaction: ShardTransaction): Promise<string[]> {
+  private getOwnerTags(transaction: ShardTransaction): string[] {
+    if (transaction.getDataFunctionName() !== 'mergeValidatorToDelegationWithWhitelist') {
+      return [];
+    }
+
+    return [ CacheTag.Owner(transaction.sender) ];
+  }
+
+  private getCollectionPropertiesTags(transaction: ShardTransaction): string[] {
     if (!transaction.data) {
       return [];
     }
@@ -132,9 +156,6 @@ export class TransactionProcessorService {
 
     this.logger.log(`Change SFT to Meta ESDT transaction detected for collection '${collectionIdentifier}'`);
 
-    const key = `esdt:${collectionIdentifier}`;
-    await this.cachingService.deleteInCache(key);
-
-    return [ key ];
+    return [ CacheTag.Collection(collectionIdentifier) ];
   }
-}
\ No newline at end of file
+}
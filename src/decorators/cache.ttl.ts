@@ -0,0 +1,14 @@
+import { DecoratorUtils } from "src/utils/decorator.utils";
+
+export class CacheTtlOptions {
+  // number of seconds, or until the start of the next round / epoch. 0 disables caching
+  ttl: number | 'round' | 'epoch' = 'round';
+
+  // when set, the response is also cached in redis and shared across instances
+  shared: boolean = false;
+}
+
+const registerCacheTtl = DecoratorUtils.registerMethodDecorator(CacheTtlOptions);
+
+export const CacheTtl = (ttl: number | 'round' | 'epoch', options?: { shared?: boolean }): MethodDecorator =>
+  registerCacheTtl({ ttl, shared: options?.shared ?? false });
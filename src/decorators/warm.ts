@@ -0,0 +1,18 @@
+import { CronExpression } from "@nestjs/schedule";
+import { CacheInfo } from "src/common/caching/entities/cache.info";
+import { DecoratorUtils } from "src/utils/decorator.utils";
+
+export class WarmOptions {
+  // the decorated method computes the value stored under cacheInfo.key with cacheInfo.ttl
+  cacheInfo: CacheInfo = new CacheInfo();
+
+  cron: string = CronExpression.EVERY_MINUTE;
+
+  // used instead of cron when the fast warmer flag is active
+  fastCron?: string;
+}
+
+const registerWarm = DecoratorUtils.registerMethodDecorator(WarmOptions);
+
+export const Warm = (options: Pick<WarmOptions, 'cacheInfo'> & Partial<WarmOptions>): MethodDecorator =>
+  registerWarm(options as WarmOptions);
@@ -1,4 +1,4 @@
-import { Controller, DefaultValuePipe, Get, HttpException, HttpStatus, Logger, NotFoundException, Param, ParseIntPipe, Query } from '@nestjs/common';
+import { Controller, DefaultValuePipe, Get, HttpException, HttpStatus, Logger, NotFoundException, Param, ParseIntPipe, Query, Res } from '@nestjs/common';
 import { ApiExcludeEndpoint, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { AccountService } from './account.service';
 import { AccountDetailed } from './entities/account.detailed';
@@ -29,6 +29,12 @@ import { ParseAddressPipe } from 'src/utils/pipes/parse.address.pipe';
 import { ParseTransactionHashPipe } from 'src/utils/pipes/parse.transaction.hash.pipe';
 import { ParseBlockHashPipe } from 'src/utils/pipes/parse.block.hash.pipe';
 import { ParseArrayPipe } from 'src/utils/pipes/parse.array.pipe';
+import { ParseCursorPipe } from 'src/utils/pipes/parse.cursor.pipe';
+import { Response } from 'express';
+import { NoCache } from 'src/decorators/no.cache';
+import { ExportService } from 'src/common/export/export.service';
+import { ExportFormat } from 'src/common/export/entities/export.format';
+import { Transaction } from '../transactions/entities/transaction';
 
 @Controller()
 @ApiTags('accounts')
@@ -45,6 +51,7 @@ export class AccountController {
     private readonly transactionService: TransactionService,
     private readonly scResultService: SmartContractResultService,
     private readonly collectionService: CollectionService,
+    private readonly exportService: ExportService,
   ) {
     this.logger = new Logger(AccountController.name);
   }
@@ -576,6 +583,8 @@ export class AccountController {
   @ApiQuery({ name: 'after', description: 'After timestamp', required: false })
   @ApiQuery({ name: 'withScResults', description: 'Return scResults for transactions', required: false })
   @ApiQuery({ name: 'withOperations', description: 'Return operations for transactions', required: false })
+  @ApiQuery({ name: 'cursor', description: 'Cursor returned in the x-cursor header of the previous page, for paginating past the first 10000 items', required: false })
+  @ApiQuery({ name: 'fields', description: 'List of fields to filter by', required: false })
   async getAccountTransactions(
     @Param('address', ParseAddressPipe) address: string,
     @Query('from', new DefaultValuePipe(0), ParseIntPipe) from: number,
@@ -593,9 +602,11 @@ export class AccountController {
     @Query('after', ParseOptionalIntPipe) after?: number,
     @Query('withScResults', new ParseOptionalBoolPipe) withScResults?: boolean,
     @Query('withOperations', new ParseOptionalBoolPipe) withOperations?: boolean,
+    @Query('cursor', ParseCursorPipe) cursor?: string,
+    @Query('fields', ParseArrayPipe) fields?: string[],
   ) {
     try {
-      return await this.transactionService.getTransactions({
+      return await this.transactionService.getTransactionsPage({
         sender,
         receiver,
         token,
@@ -607,7 +618,7 @@ export class AccountController {
         search,
         before,
         after,
-      }, { from, size }, { withScResults, withOperations }, address);
+      }, { from, size, cursor }, { withScResults, withOperations, fields }, address);
     } catch (error) {
       this.logger.error(`Error in getAccountTransactions for address ${address}`);
       this.logger.error(error);
@@ -615,6 +626,60 @@ export class AccountController {
     }
   }
 
+  @Get("/accounts/:address/transactions/export")
+  @NoCache()
+  @ApiResponse({
+    status: 200,
+    description: 'Streams the complete transactions history for a given account',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many concurrent exports',
+  })
+  @ApiQuery({ name: 'format', description: 'Export format (ndjson / csv)', required: false })
+  @ApiQuery({ name: 'sender', description: 'Address of the transaction sender', required: false })
+  @ApiQuery({ name: 'receiver', description: 'Address of the transaction receiver', required: false })
+  @ApiQuery({ name: 'token', description: 'Identifier of the token', required: false })
+  @ApiQuery({ name: 'senderShard', description: 'Id of the shard the sender address belongs to', required: false })
+  @ApiQuery({ name: 'receiverShard', description: 'Id of the shard the receiver address belongs to', required: false })
+  @ApiQuery({ name: 'miniBlockHash', description: 'Filter by miniblock hash', required: false })
+  @ApiQuery({ name: 'status', description: 'Status of the transaction (success / pending / invalid)', required: false })
+  @ApiQuery({ name: 'search', description: 'Search in data object', required: false })
+  @ApiQuery({ name: 'before', description: 'Before timestamp', required: false })
+  @ApiQuery({ name: 'after', description: 'After timestamp', required: false })
+  async exportAccountTransactions(
+    @Res() response: Response,
+    @Param('address', ParseAddressPipe) address: string,
+    @Query('format', new ParseOptionalEnumPipe(ExportFormat)) format?: ExportFormat,
+    @Query('sender', ParseAddressPipe) sender?: string,
+    @Query('receiver', ParseAddressPipe) receiver?: string,
+    @Query('token') token?: string,
+    @Query('senderShard', ParseOptionalIntPipe) senderShard?: number,
+    @Query('receiverShard', ParseOptionalIntPipe) receiverShard?: number,
+    @Query('miniBlockHash', ParseBlockHashPipe) miniBlockHash?: string,
+    @Query('status', new ParseOptionalEnumPipe(TransactionStatus)) status?: TransactionStatus,
+    @Query('search') search?: string,
+    @Query('before', ParseOptionalIntPipe) before?: number,
+    @Query('after', ParseOptionalIntPipe) after?: number,
+  ): Promise<void> {
+    const columns: (keyof Transaction)[] = ['txHash', 'sender', 'receiver', 'value', 'fee', 'nonce', 'timestamp', 'status', 'tokenIdentifier', 'tokenValue'];
+
+    await this.exportService.export<Transaction>(response, 'transactions', format ?? ExportFormat.ndjson, columns, async (handler) => {
+      await this.transactionService.iterateTransactions({
+        sender,
+        receiver,
+        token,
+        senderShard,
+        receiverShard,
+        miniBlockHash,
+        status,
+        search,
+        before,
+        after,
+      }, address, handler);
+    });
+  }
+
   @Get("/accounts/:address/transactions/count")
   @ApiResponse({
     status: 200,
@@ -1,19 +1,13 @@
 import { Injectable } from "@nestjs/common";
-import { ApiConfigService } from "../../common/api-config/api.config.service";
 import { ElasticService } from "../../common/elastic/elastic.service";
 
 @Injectable()
 export class BlsService {
-  private readonly url: string;
   private publicKeysCache: any = {};
 
   constructor(
-    private apiConfigService: ApiConfigService,
     private readonly elasticService: ElasticService,
-  ) { 
-    this.url = this.apiConfigService.getElasticUrl();
-  }
-
+  ) {}
 
   public async getPublicKeys(shard: number, epoch: number) {
     const key = `${shard}_${epoch}`;
@@ -22,13 +16,9 @@ export class BlsService {
       return this.publicKeysCache[key];
     }
   
-    const url = `${this.url}/validators/_search?q=_id:${key}`;
-  
-    let result = await this.elasticService.get(url);
-
-    let hits = result.data?.hits?.hits;
-    if (hits && hits.length > 0) {
-      let publicKeys = hits[0]._source.publicKeys;
+    let validators = await this.elasticService.getItem('validators', 'key', key);
+    if (validators) {
+      let publicKeys = validators.publicKeys;
 
       this.publicKeysCache[key] = publicKeys;
     
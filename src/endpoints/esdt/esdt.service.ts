@@ -19,6 +19,7 @@ import { GatewayService } from "../../common/gateway/gateway.service";
 import { TokenAssets } from "../tokens/entities/token.assets";
 import { TokenDetailed } from "../tokens/entities/token.detailed";
 import { TokenAssetService } from "../tokens/token.asset.service";
+import { Warm } from "src/decorators/warm";
 
 @Injectable()
 export class EsdtService {
@@ -104,7 +105,7 @@ export class EsdtService {
       return result;
     }
 
-    let cachedValue = await this.cachingService.getCacheLocal<{ [ key: string]: any }>(`address:${address}:esdts`);
+    let cachedValue = await this.cachingService.getCacheLocal<{ [ key: string]: any }>(CacheInfo.AddressEsdts(address).key);
     if (cachedValue) {
       this.metricsService.incrementCachedApiHit('Gateway.AccountEsdts');
       return cachedValue;
@@ -122,7 +123,7 @@ export class EsdtService {
 
     let ttl = await this.protocolService.getSecondsRemainingUntilNextRound();
 
-    await this.cachingService.setCacheLocal(`address:${address}:esdts`, esdts, ttl);
+    await this.cachingService.setCacheLocal(CacheInfo.AddressEsdts(address).key, esdts, ttl);
     return esdts;
   }
 
@@ -134,6 +135,7 @@ export class EsdtService {
     );
   }
 
+  @Warm({ cacheInfo: CacheInfo.AllEsdtTokens })
   async getAllEsdtTokensRaw(): Promise<TokenDetailed[]> {
     let tokensIdentifiers: string[];
     try {
@@ -151,7 +153,8 @@ export class EsdtService {
       token => CacheInfo.EsdtProperties(token).key,
       async (identifier: string) => await this.getEsdtTokenPropertiesRaw(identifier),
       Constants.oneDay(),
-      true
+      true,
+      token => CacheInfo.EsdtProperties(token).tags ?? [],
     );
 
     let tokensAssets = await this.cachingService.batchProcess(
@@ -174,7 +177,9 @@ export class EsdtService {
       CacheInfo.EsdtProperties(identifier).key,
       async () => await this.getEsdtTokenPropertiesRaw(identifier),
       Constants.oneWeek(),
-      CacheInfo.EsdtProperties(identifier).ttl
+      CacheInfo.EsdtProperties(identifier).ttl,
+      undefined,
+      CacheInfo.EsdtProperties(identifier).tags,
     );
 
     if (!properties) {
@@ -3,6 +3,8 @@ import { ApiQuery, ApiResponse, ApiTags } from "@nestjs/swagger";
 import { ParseArrayPipe } from "src/utils/pipes/parse.array.pipe";
 import { Identity } from "./entities/identity";
 import { IdentitiesService } from "./identities.service";
+import { CacheTtl } from "src/decorators/cache.ttl";
+import { Constants } from "src/utils/constants";
 
 @Controller()
 @ApiTags('identities')
@@ -10,6 +12,7 @@ export class IdentitiesController {
 	constructor(private readonly identitiesService: IdentitiesService) {}
 
 	@Get("/identities")
+	@CacheTtl(Constants.oneMinute() * 5, { shared: true })
 	@ApiResponse({
 		status: 200,
 		description: 'The identities available on the blockchain',
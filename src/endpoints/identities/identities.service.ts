@@ -9,6 +9,8 @@ import { NodesInfos } from "../providers/entities/nodes.infos";
 import { Identity } from "./entities/identity";
 import { IdentityDetailed } from "./entities/identity.detailed";
 import { StakeInfo } from "./entities/stake.info";
+import { Warm } from "src/decorators/warm";
+import { CronExpression } from "@nestjs/schedule";
 
 @Injectable()
 export class IdentitiesService {
@@ -153,6 +155,7 @@ export class IdentitiesService {
     return stakeInfo;
   }
 
+  @Warm({ cacheInfo: CacheInfo.Identities, cron: CronExpression.EVERY_5_MINUTES, fastCron: CronExpression.EVERY_MINUTE })
   async getAllIdentitiesRaw(): Promise<Identity[]> {
     let nodes = await this.nodeService.getAllNodes();
 
@@ -1,8 +1,8 @@
 import { Injectable } from "@nestjs/common";
-import { ApiConfigService } from "src/common/api-config/api.config.service";
 import { CachingService } from "src/common/caching/caching.service";
 import { ElasticService } from "src/common/elastic/elastic.service";
 import { ElasticQuery } from "src/common/elastic/entities/elastic.query";
+import { ElasticSource } from "src/common/elastic/entities/elastic.source";
 import { QueryConditionOptions } from "src/common/elastic/entities/query.condition.options";
 import { QueryType } from "src/common/elastic/entities/query.type";
 import { AddressUtils } from "src/utils/address.utils";
@@ -16,7 +16,6 @@ export class MexService {
   constructor(
     private readonly elasticService: ElasticService,
     private readonly cachingService: CachingService,
-    private readonly apiConfigService: ApiConfigService,
   ) { }
 
   async getMexForAddress(address: string): Promise<MexWeek[]> {
@@ -42,15 +41,15 @@ export class MexService {
         : `snapshot-week-${week}`;
       const mexRewardsCollection =  `mex-week-${week}-v3`;
 
-      const snapshots = await this.elasticService.getList(snapshotCollection, 'snapshot', elasticQuery, this.apiConfigService.getMexUrl());
-      const mex = await this.elasticService.getList(mexRewardsCollection, 'mex', elasticQuery, this.apiConfigService.getMexUrl());
+      const snapshots = await this.elasticService.getList(snapshotCollection, 'snapshot', elasticQuery, ElasticSource.mex);
+      const mex = await this.elasticService.getList(mexRewardsCollection, 'mex', elasticQuery, ElasticSource.mex);
 
       let undelegates = [];
 
       if (week === 1) {
         const undelegatedCollection = `undelegated-week-1-v2`;
 
-        undelegates = await this.elasticService.getList(undelegatedCollection, 'undelegated', elasticQuery, this.apiConfigService.getMexUrl());
+        undelegates = await this.elasticService.getList(undelegatedCollection, 'undelegated', elasticQuery, ElasticSource.mex);
       }
 
       for (let day = 0; day < 7; day++) {
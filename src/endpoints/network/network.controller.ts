@@ -4,6 +4,7 @@ import { NetworkConstants } from './entities/constants';
 import { Economics } from './entities/economics';
 import { NetworkService } from './network.service';
 import { Stats } from 'src/endpoints/network/entities/stats';
+import { CacheTtl } from 'src/decorators/cache.ttl';
 
 @Controller()
 @ApiTags('network')
@@ -13,6 +14,7 @@ export class NetworkController {
   ) { }
 
   @Get("/constants")
+  @CacheTtl('epoch', { shared: true })
   @ApiResponse({
     status: 200,
     description: 'The network constants',
@@ -20,6 +20,7 @@ import { ApiService } from 'src/common/network/api.service';
 import { DataQuoteType } from 'src/common/external/entities/data.quote.type';
 import { CacheInfo } from 'src/common/caching/entities/cache.info';
 import { GatewayComponentRequest } from 'src/common/gateway/entities/gateway.component.request';
+import { Warm } from 'src/decorators/warm';
 
 @Injectable()
 export class NetworkService {
@@ -98,9 +99,12 @@ export class NetworkService {
       CacheInfo.Economics.key,
       async () => await this.getEconomicsRaw(),
       CacheInfo.Economics.ttl,
+      undefined,
+      CacheInfo.Economics.softTtl,
     );
   }
 
+  @Warm({ cacheInfo: CacheInfo.Economics })
   async getEconomicsRaw(): Promise<Economics> {
     const locked = 2660000;
     const [
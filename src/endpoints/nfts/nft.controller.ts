@@ -9,6 +9,8 @@ import { Nft } from "./entities/nft";
 import { NftOwner } from "./entities/nft.owner";
 import { NftType } from "./entities/nft.type";
 import { NftService } from "./nft.service";
+import { ParseCursorPipe } from "src/utils/pipes/parse.cursor.pipe";
+import { CursorPage } from "src/common/entities/cursor.page";
 
 @Controller()
 @ApiTags('nfts')
@@ -38,6 +40,8 @@ export class NftController {
   @ApiQuery({ name: 'withOwner', description: 'Return owner where type = NonFungibleESDT', required: false })
   @ApiQuery({ name: 'withSupply', description: 'Return supply where type = SemiFungibleESDT', required: false })
   @ApiQuery({ name: 'withMetadata', description: 'Return metadata for nfts', required: false })
+  @ApiQuery({ name: 'cursor', description: 'Cursor returned in the x-cursor header of the previous page, for paginating past the first 10000 items', required: false })
+  @ApiQuery({ name: 'fields', description: 'List of fields to filter by', required: false })
   async getNfts(
 		@Query('from', new DefaultValuePipe(0), ParseIntPipe) from: number, 
 		@Query('size', new DefaultValuePipe(25), ParseIntPipe) size: number,
@@ -52,8 +56,10 @@ export class NftController {
     @Query('withOwner', new ParseOptionalBoolPipe) withOwner?: boolean | undefined,
     @Query('withSupply', new ParseOptionalBoolPipe) withSupply?: boolean | undefined,
     @Query('withMetadata', new ParseOptionalBoolPipe) withMetadata?: boolean | undefined,
-  ): Promise<Nft[]> {
-    return await this.nftService.getNfts({ from, size }, { search, identifiers, type, collection, name, tags, creator, hasUris }, { withOwner, withSupply, withMetadata });
+    @Query('cursor', ParseCursorPipe) cursor?: string | undefined,
+    @Query('fields', ParseArrayPipe) fields?: string[] | undefined,
+  ): Promise<CursorPage<Nft>> {
+    return await this.nftService.getNftsPage({ from, size, cursor }, { search, identifiers, type, collection, name, tags, creator, hasUris }, { withOwner, withSupply, withMetadata, fields });
   }
 
   @Get("/nfts/count")
@@ -107,8 +113,12 @@ export class NftController {
     status: 404,
     description: 'Token not found'
   })
-  async getNft(@Param('identifier') identifier: string): Promise<Nft> {
-    let token = await this.nftService.getSingleNft(identifier);
+  @ApiQuery({ name: 'fields', description: 'List of fields to filter by', required: false })
+  async getNft(
+    @Param('identifier') identifier: string,
+    @Query('fields', ParseArrayPipe) fields?: string[],
+  ): Promise<Nft> {
+    let token = await this.nftService.getSingleNft(identifier, fields);
     if (token === undefined) {
       throw new HttpException('NFT not found', HttpStatus.NOT_FOUND);
     }
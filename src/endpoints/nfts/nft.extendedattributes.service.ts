@@ -6,6 +6,7 @@ import { MatchUtils } from "src/utils/match.utils";
 import { TokenUtils } from "src/utils/tokens.utils";
 import { ApiConfigService } from "../../common/api-config/api.config.service";
 import { CachingService } from "../../common/caching/caching.service";
+import { ResiliencePolicyName } from "src/common/network/entities/resilience.policy.name";
 
 @Injectable()
 export class NftExtendedAttributesService {
@@ -71,7 +72,7 @@ export class NftExtendedAttributesService {
     let ipfsUri = `https://ipfs.io/ipfs/${metadata}`;
     let processedIpfsUri = TokenUtils.computeNftUri(ipfsUri, this.apiConfigService.getMediaUrl() + '/nfts/asset');
 
-    let result = await this.apiService.get(processedIpfsUri, 5000);
+    let result = await this.apiService.get(processedIpfsUri, undefined, undefined, ResiliencePolicyName.ipfs);
     return result.data;
   }
 
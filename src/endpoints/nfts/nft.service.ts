@@ -1,6 +1,7 @@
 import { forwardRef, Inject, Injectable, Logger } from "@nestjs/common";
 import { ApiConfigService } from "src/common/api-config/api.config.service";
 import { QueryPagination } from "src/common/entities/query.pagination";
+import { CursorPage } from "src/common/entities/cursor.page";
 import { NftExtendedAttributesService } from "src/endpoints/nfts/nft.extendedattributes.service";
 import { ApiUtils } from "src/utils/api.utils";
 import { BinaryUtils } from "src/utils/binary.utils";
@@ -25,9 +26,34 @@ import { Constants } from "src/utils/constants";
 import { GatewayComponentRequest } from "src/common/gateway/entities/gateway.component.request";
 import asyncPool from "tiny-async-pool";
 import { PluginService } from "src/common/plugins/plugin.service";
+import { FieldsUtils } from "src/utils/fields.utils";
 
 @Injectable()
 export class NftService {
+  // response fields which are computed out of other properties of the elastic token document, or not stored in it at all
+  static readonly sourceFields: { [field: string]: string[] } = {
+    collection: [ 'token' ],
+    nonce: [],
+    type: [],
+    name: [ 'data.name' ],
+    creator: [ 'data.creator' ],
+    royalties: [ 'data.royalties' ],
+    attributes: [ 'data.attributes', 'data.metadata' ],
+    metadata: [ 'data.attributes', 'data.metadata' ],
+    uris: [ 'data.uris' ],
+    url: [ 'data.uris' ],
+    isWhitelistedStorage: [ 'data.uris' ],
+    thumbnailUrl: [ 'data.uris' ],
+    tags: [ 'data.tags' ],
+    owner: [],
+    balance: [],
+    supply: [],
+    decimals: [],
+    assets: [],
+    ticker: [],
+    scamInfo: [],
+  };
+
   private readonly logger: Logger
   private readonly NFT_THUMBNAIL_PREFIX: string;
 
@@ -47,15 +73,23 @@ export class NftService {
   }
 
   async getNfts(queryPagination: QueryPagination, filter: NftFilter, queryOptions?: NftQueryOptions): Promise<Nft[]> {
-    const { from, size } = queryPagination;
+    let page = await this.getNftsPage(queryPagination, filter, queryOptions);
+
+    return page.items;
+  }
 
-    let nfts = await this.getNftsInternal(from, size, filter, undefined, queryOptions);
+  async getNftsPage(queryPagination: QueryPagination, filter: NftFilter, queryOptions?: NftQueryOptions): Promise<CursorPage<Nft>> {
+    let page = await this.getNftsInternal(queryPagination, filter, undefined, queryOptions);
+    let nfts = page.items;
+    let fields = queryOptions?.fields;
 
-    for (let nft of nfts) {
-      await this.applyAssetsAndTicker(nft);
+    if (FieldsUtils.isRequested(fields, 'assets', 'ticker')) {
+      for (let nft of nfts) {
+        await this.applyAssetsAndTicker(nft);
+      }
     }
 
-    if (queryOptions && queryOptions.withOwner) {
+    if (queryOptions && queryOptions.withOwner && FieldsUtils.isRequested(fields, 'owner')) {
       let nonFungibleNftIdentifiers = nfts.filter(x => x.type === NftType.NonFungibleESDT).map(x => x.identifier);
 
       const accountsEsdts = await this.elasticService.getAccountEsdtByIdentifiers(nonFungibleNftIdentifiers);
@@ -70,7 +104,7 @@ export class NftService {
       }
     }
 
-    if (queryOptions && queryOptions.withSupply) {
+    if (queryOptions && queryOptions.withSupply && FieldsUtils.isRequested(fields, 'supply')) {
       for (let nft of nfts) {
         if (nft.type === NftType.SemiFungibleESDT) {
           nft.supply = await this.esdtService.getTokenSupply(nft.identifier);
@@ -82,7 +116,11 @@ export class NftService {
       await this.pluginService.processNft(nft);
     }
 
-    return nfts;
+    return page;
+  }
+
+  private async applyNftSupply(nft: Nft): Promise<void> {
+    nft.supply = await this.esdtService.getTokenSupply(nft.identifier);
   }
 
   private async applyNftOwner(nft: Nft): Promise<void> {
@@ -104,8 +142,8 @@ export class NftService {
     }
   }
 
-  async getSingleNft(identifier: string): Promise<Nft | undefined> {
-    let nfts = await this.getNftsInternal(0, 1, new NftFilter(), identifier);
+  async getSingleNft(identifier: string, fields?: string[]): Promise<Nft | undefined> {
+    let { items: nfts } = await this.getNftsInternal({ from: 0, size: 1 }, new NftFilter(), identifier, { fields });
     if (nfts.length === 0) {
       return undefined;
     }
@@ -116,13 +154,13 @@ export class NftService {
       return undefined;
     }
 
-    nft.supply = await this.esdtService.getTokenSupply(nft.identifier);
-
-    await this.applyNftOwner(nft);
-
-    await this.applyAssetsAndTicker(nft);
-
-    await this.applyNftMetadata(nft);
+    // the enrichment steps are independent of each other, so they are run concurrently
+    await Promise.all([
+      FieldsUtils.isRequested(fields, 'supply') ? this.applyNftSupply(nft) : undefined,
+      FieldsUtils.isRequested(fields, 'owner') ? this.applyNftOwner(nft) : undefined,
+      FieldsUtils.isRequested(fields, 'assets', 'ticker') ? this.applyAssetsAndTicker(nft) : undefined,
+      FieldsUtils.isRequested(fields, 'metadata') ? this.applyNftMetadata(nft) : undefined,
+    ]);
 
     await this.pluginService.processNft(nft);
 
@@ -152,8 +190,11 @@ export class NftService {
     });
   }
 
-  async getNftsInternal(from: number, size: number, filter: NftFilter, identifier: string | undefined, queryOptions?: NftQueryOptions): Promise<Nft[]> {
-    let elasticNfts = await this.elasticService.getNfts(from, size, filter, identifier);
+  async getNftsInternal(pagination: QueryPagination, filter: NftFilter, identifier: string | undefined, queryOptions?: NftQueryOptions): Promise<CursorPage<Nft>> {
+    let fields = queryOptions?.fields;
+    let includes = FieldsUtils.getSourceIncludes(fields, NftService.sourceFields, [ 'identifier', 'token' ]);
+
+    let { items: elasticNfts, cursor } = await this.elasticService.getNfts(pagination, filter, identifier, includes);
 
     let nfts: Nft[] = [];
 
@@ -197,7 +238,7 @@ export class NftService {
       nfts.push(nft);
     }
 
-    if (queryOptions && queryOptions.withMetadata) {
+    if (queryOptions && queryOptions.withMetadata && FieldsUtils.isRequested(fields, 'metadata')) {
       await asyncPool(
         this.apiConfigService.getPoolLimit(),
         nfts,
@@ -229,7 +270,11 @@ export class NftService {
       }
     }
 
-    return nfts;
+    let page = new CursorPage<Nft>();
+    page.items = nfts;
+    page.cursor = cursor;
+
+    return page;
   }
 
   async getNftOwnersCount(identifier: string): Promise<number> {
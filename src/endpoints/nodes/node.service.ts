@@ -18,8 +18,10 @@ import { KeybaseService } from "src/common/keybase/keybase.service";
 import { GatewayService } from "src/common/gateway/gateway.service";
 import { KeybaseState } from "src/common/keybase/entities/keybase.state";
 import { CacheInfo } from "src/common/caching/entities/cache.info";
+import { CacheTag } from "src/common/caching/entities/cache.tag";
 import { Stake } from "../stake/entities/stake";
 import { GatewayComponentRequest } from "src/common/gateway/entities/gateway.component.request";
+import { Warm } from "src/decorators/warm";
 
 @Injectable()
 export class NodeService {
@@ -201,7 +203,9 @@ export class NodeService {
     return await this.cachingService.getOrSetCache(
       CacheInfo.Nodes.key, 
       async () => await this.getAllNodesRaw(), 
-      CacheInfo.Nodes.ttl
+      CacheInfo.Nodes.ttl,
+      undefined,
+      CacheInfo.Nodes.softTtl,
     );
   }
 
@@ -289,6 +293,7 @@ export class NodeService {
     }
   }
 
+  @Warm({ cacheInfo: CacheInfo.Nodes })
   async getAllNodesRaw(): Promise<Node[]> {
     let nodes = await this.getHeartbeat();
     let queue = await this.getQueue();
@@ -337,9 +342,10 @@ export class NodeService {
         keys: Object.keys(owners).map((bls) => CacheInfo.OwnerByEpochAndBls(bls, epoch).key),
         values: Object.values(owners),
         ttls: new Array(Object.keys(owners).length).fill(fastWarm ? 60 : Constants.oneDay()), // 1 minute or 24h
+        tags: Object.values(owners).map((owner: any) => [ CacheTag.Owner(owner) ]),
       };
 
-      await this.cachingService.batchSetCache(params.keys, params.values, params.ttls);
+      await this.cachingService.batchSetCache(params.keys, params.values, params.ttls, params.tags);
     }
 
     return blses.map((bls, index) => (missing.includes(index) ? owners[bls] : cached[index]));
@@ -540,18 +546,4 @@ export class NodeService {
 
     return nodes;
   }
-
-  async deleteOwnersForAddressInCache(address: string): Promise<string[]> {
-    let nodes = await this.getAllNodes();
-    let epoch = await this.blockService.getCurrentEpoch();
-    let keys = nodes
-      .filter(x => x.owner === address)
-      .map(x => `owner:${epoch}:${x.bls}`);
-
-    for (let key of keys) {
-      await this.cachingService.deleteInCache(key);
-    }
-
-    return keys;
-  }
 }
\ No newline at end of file
@@ -13,6 +13,8 @@ import { DelegationData } from "./entities/delegation.data";
 import { KeybaseService } from "src/common/keybase/keybase.service";
 import { ApiService } from "src/common/network/api.service";
 import { CacheInfo } from "src/common/caching/entities/cache.info";
+import { Warm } from "src/decorators/warm";
+import { ResiliencePolicyName } from "src/common/network/entities/resilience.policy.name";
 
 @Injectable()
 export class ProviderService {
@@ -71,10 +73,13 @@ export class ProviderService {
     return await this.cachingService.getOrSetCache(
       CacheInfo.ProvidersWithStakeInformation.key,
       async () => await this.getProvidersWithStakeInformationRaw(),
-      CacheInfo.ProvidersWithStakeInformation.ttl
+      CacheInfo.ProvidersWithStakeInformation.ttl,
+      undefined,
+      CacheInfo.ProvidersWithStakeInformation.softTtl,
     );
   }
 
+  @Warm({ cacheInfo: CacheInfo.ProvidersWithStakeInformation })
   async getProvidersWithStakeInformationRaw(): Promise<Provider[]> {
     let providers = await this.getAllProviders();
     let nodes = await this.nodeService.getAllNodes();
@@ -142,7 +147,7 @@ export class ProviderService {
 
   async getDelegationProvidersRaw(): Promise<DelegationData[]> {
     try {
-      const { data } = await this.apiService.get(this.apiConfigService.getProvidersUrl());
+      const { data } = await this.apiService.get(this.apiConfigService.getProvidersUrl(), undefined, undefined, ResiliencePolicyName.providers);
       return data;
     } catch (error) {
       this.logger.error('Error when getting delegation providers');
@@ -159,6 +164,7 @@ export class ProviderService {
     );
   }
 
+  @Warm({ cacheInfo: CacheInfo.Providers })
   async getAllProvidersRaw() : Promise<Provider[]> {
     const providers = await this.getProviderAddresses();
 
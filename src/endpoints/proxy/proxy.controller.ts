@@ -10,6 +10,7 @@ import { ParseTransactionHashPipe } from "src/utils/pipes/parse.transaction.hash
 import { ParseBlockHashPipe } from "src/utils/pipes/parse.block.hash.pipe";
 import { Response } from "express";
 import { NoCache } from "src/decorators/no.cache";
+import { CacheTtl } from "src/decorators/cache.ttl";
 import { GatewayComponentRequest } from "src/common/gateway/entities/gateway.component.request";
 import { PluginService } from "src/common/plugins/plugin.service";
 
@@ -29,18 +30,21 @@ export class ProxyController {
 
   @Get('/address/:address')
   @ApiExcludeEndpoint()
+  @CacheTtl(0)
   async getAddress(@Param('address', ParseAddressPipe) address: string) {
     return await this.gatewayGet(`address/${address}`, GatewayComponentRequest.addressDetails);
   }
 
   @Get('/address/:address/balance')
   @ApiExcludeEndpoint()
+  @CacheTtl(0)
   async getAddressBalance(@Param('address', ParseAddressPipe) address: string) {
     return await this.gatewayGet(`address/${address}/balance`, GatewayComponentRequest.addressBalance);
   }
 
   @Get('/address/:address/nonce')
   @ApiExcludeEndpoint()
+  @CacheTtl(0)
   async getAddressNonce(@Param('address', ParseAddressPipe) address: string) {
     return await this.gatewayGet(`address/${address}/nonce`, GatewayComponentRequest.addressNonce);
   }
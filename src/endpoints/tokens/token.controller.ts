@@ -1,4 +1,4 @@
-import { Controller, DefaultValuePipe, Get, HttpException, HttpStatus, Logger, NotFoundException, Param, ParseIntPipe, Query } from "@nestjs/common";
+import { Controller, DefaultValuePipe, Get, HttpException, HttpStatus, Logger, NotFoundException, Param, ParseIntPipe, Query, Res } from "@nestjs/common";
 import { ApiExcludeEndpoint, ApiQuery, ApiResponse, ApiTags } from "@nestjs/swagger";
 import { ParseAddressPipe } from "src/utils/pipes/parse.address.pipe";
 import { ParseArrayPipe } from "src/utils/pipes/parse.array.pipe";
@@ -11,6 +11,14 @@ import { TransactionService } from "../transactions/transaction.service";
 import { TokenAccount } from "./entities/token.account";
 import { TokenDetailed } from "./entities/token.detailed";
 import { TokenService } from "./token.service";
+import { CacheTtl } from "src/decorators/cache.ttl";
+import { Constants } from "src/utils/constants";
+import { ParseCursorPipe } from "src/utils/pipes/parse.cursor.pipe";
+import { CursorPage } from "src/common/entities/cursor.page";
+import { Response } from "express";
+import { NoCache } from "src/decorators/no.cache";
+import { ExportService } from "src/common/export/export.service";
+import { ExportFormat } from "src/common/export/entities/export.format";
 
 @Controller()
 @ApiTags('tokens')
@@ -19,6 +27,7 @@ export class TokenController {
   constructor(
     private readonly tokenService: TokenService,
     private readonly transactionService: TransactionService,
+    private readonly exportService: ExportService,
   ) {
     this.logger = new Logger(TokenController.name);
   }
@@ -77,6 +86,7 @@ export class TokenController {
   }
 
   @Get('/tokens/:identifier')
+  @CacheTtl(Constants.oneMinute())
   @ApiResponse({
     status: 200,
     description: 'Token details',
@@ -108,12 +118,35 @@ export class TokenController {
   })
   @ApiQuery({ name: 'from', description: 'Numer of items to skip for the result set', required: false })
   @ApiQuery({ name: 'size', description: 'Number of items to retrieve', required: false })
+  @ApiQuery({ name: 'cursor', description: 'Cursor returned in the x-cursor header of the previous page, for paginating past the first 10000 items', required: false })
   getTokenAccounts(
     @Param('identifier') identifier: string,
     @Query('from', new DefaultValuePipe(0), ParseIntPipe) from: number,
-    @Query("size", new DefaultValuePipe(25), ParseIntPipe) size: number
-  ): Promise<TokenAccount[]> {
-    return this.tokenService.getTokenAccounts({ from, size }, identifier);
+    @Query("size", new DefaultValuePipe(25), ParseIntPipe) size: number,
+    @Query('cursor', ParseCursorPipe) cursor: string | undefined,
+  ): Promise<CursorPage<TokenAccount>> {
+    return this.tokenService.getTokenAccountsPage({ from, size, cursor }, identifier);
+  }
+
+  @Get("/tokens/:identifier/accounts/export")
+  @NoCache()
+  @ApiResponse({
+    status: 200,
+    description: 'Streams all the accounts holding a specific token',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many concurrent exports',
+  })
+  @ApiQuery({ name: 'format', description: 'Export format (ndjson / csv)', required: false })
+  async exportTokenAccounts(
+    @Res() response: Response,
+    @Param('identifier') identifier: string,
+    @Query('format', new ParseOptionalEnumPipe(ExportFormat)) format?: ExportFormat,
+  ): Promise<void> {
+    await this.exportService.export<TokenAccount>(response, 'token-accounts', format ?? ExportFormat.ndjson, ['address', 'balance'], async (handler) => {
+      await this.tokenService.iterateTokenAccounts(identifier, handler);
+    });
   }
 
   @Get("/tokens/:identifier/accounts/count")
@@ -3,6 +3,7 @@ import { Token } from "./entities/token";
 import { TokenWithBalance } from "./entities/token.with.balance";
 import { TokenDetailed } from "./entities/token.detailed";
 import { QueryPagination } from "src/common/entities/query.pagination";
+import { CursorPage } from "src/common/entities/cursor.page";
 import { ApiUtils } from "src/utils/api.utils";
 import { TokenFilter } from "./entities/token.filter";
 import { TokenUtils } from "src/utils/tokens.utils";
@@ -184,14 +185,38 @@ export class TokenService {
   }
 
   async getTokenAccounts(pagination: QueryPagination, identifier: string): Promise<TokenAccount[]> {
-    const elasticQuery: ElasticQuery = ElasticQuery.create()
-      .withPagination(pagination)
-      .withSort([{ name: "balanceNum", order: ElasticSortOrder.descending }])
-      .withCondition(QueryConditionOptions.must, [QueryType.Match("token", identifier, QueryOperator.AND)]);
+    let page = await this.getTokenAccountsPage(pagination, identifier);
+
+    return page.items;
+  }
+
+  async getTokenAccountsPage(pagination: QueryPagination, identifier: string): Promise<CursorPage<TokenAccount>> {
+    const elasticQuery = this.buildTokenAccountsQuery(identifier)
+      .withPagination({ from: pagination.from, size: pagination.size, cursor: pagination.cursor });
+
+    const { items: tokenAccounts, cursor } = await this.elasticService.getPage("accountsesdt", identifier, elasticQuery);
 
-    const tokenAccounts = await this.elasticService.getList("accountsesdt", identifier, elasticQuery);
+    let page = new CursorPage<TokenAccount>();
+    page.items = tokenAccounts.map((tokenAccount) => ApiUtils.mergeObjects(new TokenAccount(), tokenAccount));
+    page.cursor = cursor;
 
-    return tokenAccounts.map((tokenAccount) => ApiUtils.mergeObjects(new TokenAccount(), tokenAccount));
+    return page;
+  }
+
+  async iterateTokenAccounts(identifier: string, handler: (tokenAccounts: TokenAccount[]) => Promise<boolean>): Promise<void> {
+    await this.elasticService.iterate("accountsesdt", identifier, this.buildTokenAccountsQuery(identifier), async (tokenAccounts) => {
+      return await handler(tokenAccounts.map((tokenAccount) => ApiUtils.mergeObjects(new TokenAccount(), tokenAccount)));
+    });
+  }
+
+  private buildTokenAccountsQuery(identifier: string): ElasticQuery {
+    return ElasticQuery.create()
+      .withSort([
+        { name: "balanceNum", order: ElasticSortOrder.descending },
+        // a token is held at most once per address, which makes the address a unique tiebreaker
+        { name: "address", order: ElasticSortOrder.ascending },
+      ])
+      .withCondition(QueryConditionOptions.must, [QueryType.Match("token", identifier, QueryOperator.AND)]);
   }
 
   async getTokenAccountsCount(identifier: string): Promise<number> {
@@ -0,0 +1,74 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { TransactionActionTransfer } from "./transaction.action.transfer";
+
+// only the properties relevant to the decoded action are set
+export class TransactionActionArguments {
+  @ApiProperty({ type: TransactionActionTransfer, isArray: true, required: false })
+  transfers?: TransactionActionTransfer[];
+
+  @ApiProperty({ required: false })
+  receiver?: string;
+
+  @ApiProperty({ description: 'Function called on the receiver along with the transfer', required: false })
+  functionName?: string;
+
+  @ApiProperty({ description: 'Hex encoded arguments of the function called on the receiver', type: String, isArray: true, required: false })
+  functionArgs?: string[];
+
+  @ApiProperty({ required: false })
+  provider?: string;
+
+  @ApiProperty({ required: false })
+  value?: string;
+
+  @ApiProperty({ required: false })
+  decimals?: number;
+
+  @ApiProperty({ required: false })
+  nodes?: number;
+
+  @ApiProperty({ required: false })
+  rewardAddress?: string;
+
+  @ApiProperty({ type: String, isArray: true, required: false })
+  blsKeys?: string[];
+
+  @ApiProperty({ required: false })
+  name?: string;
+
+  @ApiProperty({ required: false })
+  ticker?: string;
+
+  @ApiProperty({ required: false })
+  supply?: string;
+
+  @ApiProperty({ required: false })
+  token?: string;
+
+  @ApiProperty({ required: false })
+  address?: string;
+
+  @ApiProperty({ type: String, isArray: true, required: false })
+  roles?: string[];
+
+  @ApiProperty({ required: false })
+  collection?: string;
+
+  @ApiProperty({ required: false })
+  from?: string;
+
+  @ApiProperty({ required: false })
+  to?: string;
+
+  @ApiProperty({ required: false })
+  username?: string;
+
+  @ApiProperty({ required: false })
+  vmType?: string;
+
+  @ApiProperty({ required: false })
+  codeMetadata?: string;
+
+  @ApiProperty({ required: false })
+  contract?: string;
+}
@@ -0,0 +1,8 @@
+export enum TransactionActionCategory {
+  esdtNft = 'esdtNft',
+  delegation = 'delegation',
+  stake = 'stake',
+  esdt = 'esdt',
+  dns = 'dns',
+  smartContract = 'smartContract',
+}
@@ -0,0 +1,26 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { TokenType } from "src/endpoints/tokens/entities/token.type";
+
+export class TransactionActionTransfer {
+  @ApiProperty({ enum: TokenType, required: false })
+  type?: TokenType;
+
+  @ApiProperty()
+  ticker: string = '';
+
+  @ApiProperty()
+  value: string = '0';
+
+  @ApiProperty({ required: false })
+  decimals?: number;
+
+  // fungible tokens are identified by the token, while nfts by both their collection and identifier
+  @ApiProperty({ required: false })
+  token?: string;
+
+  @ApiProperty({ required: false })
+  collection?: string;
+
+  @ApiProperty({ required: false })
+  identifier?: string;
+}
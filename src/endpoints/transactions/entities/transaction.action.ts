@@ -0,0 +1,17 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { TransactionActionArguments } from "./transaction.action.arguments";
+import { TransactionActionCategory } from "./transaction.action.category";
+
+export class TransactionAction {
+  @ApiProperty({ enum: TransactionActionCategory })
+  category: TransactionActionCategory = TransactionActionCategory.esdtNft;
+
+  @ApiProperty()
+  name: string = '';
+
+  @ApiProperty()
+  description: string = '';
+
+  @ApiProperty({ type: TransactionActionArguments, required: false })
+  arguments: TransactionActionArguments | undefined = undefined;
+}
@@ -0,0 +1,12 @@
+export class TransactionMetadata {
+  sender: string = '';
+
+  receiver: string = '';
+
+  value: string = '0';
+
+  functionName: string = '';
+
+  // hex encoded, as found in the data field
+  functionArgs: string[] = [];
+}
@@ -2,4 +2,7 @@ export enum TransactionOptionalFieldOption {
   results = 'results',
   logs = 'logs',
   receipt = 'receipt',
+  operations = 'operations',
+  price = 'price',
+  action = 'action',
 }
\ No newline at end of file
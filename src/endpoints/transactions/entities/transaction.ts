@@ -1,4 +1,5 @@
 import { ApiProperty } from "@nestjs/swagger";
+import { TransactionAction } from "./transaction.action";
 
 export class Transaction {
   @ApiProperty()
@@ -58,8 +59,8 @@ export class Transaction {
   @ApiProperty()
   tokenValue: string | undefined = undefined;
 
-  @ApiProperty()
-  action: any | undefined = undefined;
+  @ApiProperty({ type: TransactionAction })
+  action: TransactionAction | undefined = undefined;
 
   @ApiProperty()
   scamInfo: any | undefined = undefined;
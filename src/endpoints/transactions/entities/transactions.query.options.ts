@@ -1,4 +1,5 @@
 export class TransactionQueryOptions {
   withScResults?: boolean = false;
   withOperations?: boolean = true;
+  fields?: string[];
 }
\ No newline at end of file
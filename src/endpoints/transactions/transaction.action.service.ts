@@ -0,0 +1,324 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { AddressUtils } from "src/utils/address.utils";
+import { BinaryUtils } from "src/utils/binary.utils";
+import { dnsContracts } from "src/utils/constants/dnscontracts";
+import { NumberUtils } from "src/utils/number.utils";
+import { EsdtService } from "../esdt/esdt.service";
+import { Transaction } from "./entities/transaction";
+import { TransactionAction } from "./entities/transaction.action";
+import { TransactionActionArguments } from "./entities/transaction.action.arguments";
+import { TransactionActionCategory } from "./entities/transaction.action.category";
+import { TransactionActionTransfer } from "./entities/transaction.action.transfer";
+import { TransactionMetadata } from "./entities/transaction.metadata";
+
+@Injectable()
+export class TransactionActionService {
+  // receiver of the transactions deploying new smart contracts
+  private static readonly deployAddress = 'erd1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq6gq4hu';
+  private static readonly egldDecimals = 18;
+
+  private static readonly stakeDescriptions: { [ functionName: string ]: string } = {
+    unStake: 'Unstake nodes',
+    unStakeNodes: 'Unstake nodes',
+    unBond: 'Unbond nodes',
+    unBondNodes: 'Unbond nodes',
+    unJail: 'Unjail nodes',
+    reStakeUnStakedNodes: 'Restake unstaked nodes',
+    unBondTokens: 'Unbond tokens',
+    claim: 'Claim',
+  };
+
+  private static readonly issueDescriptions: { [ functionName: string ]: string } = {
+    issue: 'Issue fungible token',
+    issueSemiFungible: 'Issue semi-fungible collection',
+    issueNonFungible: 'Issue non-fungible collection',
+    registerMetaESDT: 'Register meta ESDT collection',
+  };
+
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly apiConfigService: ApiConfigService,
+    private readonly esdtService: EsdtService,
+  ) {
+    this.logger = new Logger(TransactionActionService.name);
+  }
+
+  async getTransactionAction(transaction: Transaction): Promise<TransactionAction | undefined> {
+    try {
+      let metadata = this.getTransactionMetadata(transaction);
+
+      if (metadata.receiver === TransactionActionService.deployAddress) {
+        return this.getDeployAction(metadata);
+      }
+
+      switch (metadata.functionName) {
+        case 'ESDTTransfer':
+          return await this.getEsdtTransferAction(metadata);
+        case 'ESDTNFTTransfer':
+          return await this.getNftTransferAction(metadata);
+        case 'MultiESDTNFTTransfer':
+          return await this.getMultiTransferAction(metadata);
+        case 'upgradeContract':
+          return this.getUpgradeAction(metadata);
+      }
+
+      if (metadata.receiver === this.apiConfigService.getStakingContractAddress()) {
+        return this.getStakeAction(metadata);
+      }
+
+      if (metadata.receiver === this.apiConfigService.getEsdtContractAddress()) {
+        return this.getEsdtAction(metadata);
+      }
+
+      if (dnsContracts.includes(metadata.receiver)) {
+        return this.getDnsAction(metadata);
+      }
+
+      if (AddressUtils.isSmartContractAddress(metadata.receiver)) {
+        return this.getDelegationAction(metadata);
+      }
+
+      return undefined;
+    } catch (error) {
+      this.logger.error(`Error when decoding the action of transaction with hash '${transaction.txHash}'`);
+      this.logger.error(error);
+      return undefined;
+    }
+  }
+
+  private getTransactionMetadata(transaction: Transaction): TransactionMetadata {
+    let metadata = new TransactionMetadata();
+    metadata.sender = transaction.sender;
+    metadata.receiver = transaction.receiver;
+    metadata.value = transaction.value;
+
+    let decodedData = transaction.data ? BinaryUtils.base64Decode(transaction.data) : '';
+    let [ functionName, ...functionArgs ] = decodedData.split('@');
+
+    metadata.functionName = functionName;
+    metadata.functionArgs = functionArgs;
+
+    return metadata;
+  }
+
+  private async getEsdtTransferAction(metadata: TransactionMetadata): Promise<TransactionAction | undefined> {
+    let [ token, value, functionName, ...functionArgs ] = metadata.functionArgs;
+
+    let transfer = await this.getTokenTransfer(token, undefined, value);
+
+    return this.createTransferAction('transfer', [ transfer ], metadata.receiver, functionName, functionArgs);
+  }
+
+  private async getNftTransferAction(metadata: TransactionMetadata): Promise<TransactionAction | undefined> {
+    // the transaction is sent by the owner to itself, the actual receiver being one of the arguments
+    let [ collection, nonce, quantity, receiver, functionName, ...functionArgs ] = metadata.functionArgs;
+
+    let transfer = await this.getTokenTransfer(collection, nonce, quantity);
+
+    return this.createTransferAction('transfer', [ transfer ], AddressUtils.bech32Encode(receiver), functionName, functionArgs);
+  }
+
+  private async getMultiTransferAction(metadata: TransactionMetadata): Promise<TransactionAction | undefined> {
+    let [ receiver, count, ...rest ] = metadata.functionArgs;
+
+    let transferCount = BinaryUtils.hexToNumber(count);
+
+    let transfers = [];
+    for (let index = 0; index < transferCount; index++) {
+      let [ token, nonce, value ] = rest.slice(index * 3, index * 3 + 3);
+
+      transfers.push(await this.getTokenTransfer(token, nonce, value));
+    }
+
+    let [ functionName, ...functionArgs ] = rest.slice(transferCount * 3);
+
+    return this.createTransferAction('multiTransfer', transfers, AddressUtils.bech32Encode(receiver), functionName, functionArgs);
+  }
+
+  private async getTokenTransfer(tokenHex: string, nonceHex: string | undefined, valueHex: string): Promise<TransactionActionTransfer> {
+    let token = BinaryUtils.hexToString(tokenHex);
+    let properties = await this.esdtService.getEsdtTokenProperties(token);
+
+    let transfer = new TransactionActionTransfer();
+    transfer.type = properties?.type;
+    transfer.ticker = token.split('-')[0];
+    transfer.value = BinaryUtils.hexToBigInt(valueHex).toString();
+    transfer.decimals = properties?.decimals;
+
+    // multi transfers also contain fungible tokens, which have a zero nonce
+    if (nonceHex && BinaryUtils.hexToBigInt(nonceHex) > BigInt(0)) {
+      transfer.collection = token;
+      transfer.identifier = `${token}-${BinaryUtils.padHex(nonceHex)}`;
+    } else {
+      transfer.token = token;
+    }
+
+    return transfer;
+  }
+
+  private createTransferAction(name: string, transfers: TransactionActionTransfer[], receiver: string, functionName?: string, functionArgs?: string[]): TransactionAction {
+    let action = new TransactionAction();
+    action.category = TransactionActionCategory.esdtNft;
+    action.name = name;
+    action.description = `Transfer ${transfers.map(transfer => this.getTransferDescription(transfer)).join(', ')} to ${receiver}`;
+    action.arguments = { transfers, receiver };
+
+    // the function called on the receiver after the transfer is hex encoded, like the rest of the arguments
+    if (functionName) {
+      action.arguments.functionName = BinaryUtils.hexToString(functionName);
+      action.arguments.functionArgs = functionArgs;
+    }
+
+    return action;
+  }
+
+  private getTransferDescription(transfer: TransactionActionTransfer): string {
+    let name = transfer.identifier ?? transfer.ticker;
+
+    if (transfer.decimals === undefined) {
+      return `${transfer.value} ${name}`;
+    }
+
+    return `${NumberUtils.toDenominatedString(BigInt(transfer.value), transfer.decimals)} ${name}`;
+  }
+
+  private getDelegationAction(metadata: TransactionMetadata): TransactionAction | undefined {
+    let provider = metadata.receiver;
+
+    switch (metadata.functionName) {
+      case 'delegate':
+        return this.createAction(TransactionActionCategory.delegation, 'delegate', `Delegate ${this.getEgldDescription(metadata.value)} to staking provider ${provider}`, { provider, value: metadata.value, decimals: TransactionActionService.egldDecimals });
+      case 'unDelegate':
+        return this.getUnDelegateAction(provider, BinaryUtils.hexToBigInt(metadata.functionArgs[0]).toString());
+      case 'claimRewards':
+        return this.createAction(TransactionActionCategory.delegation, 'claimRewards', `Claim rewards from staking provider ${provider}`, { provider });
+      case 'reDelegateRewards':
+        return this.createAction(TransactionActionCategory.delegation, 'reDelegateRewards', `Redelegate rewards to staking provider ${provider}`, { provider });
+      case 'withdraw':
+        return this.createAction(TransactionActionCategory.delegation, 'withdraw', `Withdraw from staking provider ${provider}`, { provider });
+      default:
+        return undefined;
+    }
+  }
+
+  private getUnDelegateAction(provider: string, value: string): TransactionAction {
+    return this.createAction(TransactionActionCategory.delegation, 'unDelegate', `Undelegate ${this.getEgldDescription(value)} from staking provider ${provider}`, { provider, value, decimals: TransactionActionService.egldDecimals });
+  }
+
+  private getStakeAction(metadata: TransactionMetadata): TransactionAction | undefined {
+    let [ firstArg ] = metadata.functionArgs;
+
+    if (metadata.functionName === 'stake') {
+      let nodes = firstArg ? BinaryUtils.hexToNumber(firstArg) : undefined;
+
+      return this.createAction(TransactionActionCategory.stake, 'stake', `Stake ${this.getEgldDescription(metadata.value)}`, { nodes, value: metadata.value, decimals: TransactionActionService.egldDecimals });
+    }
+
+    if (metadata.functionName === 'unStakeTokens') {
+      let value = BinaryUtils.hexToBigInt(firstArg).toString();
+
+      return this.createAction(TransactionActionCategory.stake, 'unStakeTokens', `Unstake ${this.getEgldDescription(value)}`, { value, decimals: TransactionActionService.egldDecimals });
+    }
+
+    if (metadata.functionName === 'changeRewardAddress') {
+      let rewardAddress = AddressUtils.bech32Encode(firstArg);
+
+      return this.createAction(TransactionActionCategory.stake, 'changeRewardAddress', `Change reward address to ${rewardAddress}`, { rewardAddress });
+    }
+
+    let description = TransactionActionService.stakeDescriptions[metadata.functionName];
+    if (!description) {
+      return undefined;
+    }
+
+    return this.createAction(TransactionActionCategory.stake, metadata.functionName, description, { blsKeys: metadata.functionArgs });
+  }
+
+  private getEsdtAction(metadata: TransactionMetadata): TransactionAction | undefined {
+    switch (metadata.functionName) {
+      case 'issue':
+      case 'issueSemiFungible':
+      case 'issueNonFungible':
+      case 'registerMetaESDT':
+        return this.getIssueAction(metadata.functionName, metadata.functionArgs);
+      case 'setSpecialRole':
+      case 'unSetSpecialRole':
+        return this.getSpecialRoleAction(metadata.functionName, metadata.functionArgs);
+      case 'transferNFTCreateRole':
+        return this.getTransferCreateRoleAction(metadata.functionArgs);
+      default:
+        return undefined;
+    }
+  }
+
+  private getIssueAction(functionName: string, args: string[]): TransactionAction {
+    let name = BinaryUtils.hexToString(args[0]);
+    let ticker = BinaryUtils.hexToString(args[1]);
+    let issueArguments: TransactionActionArguments = { name, ticker };
+
+    if (functionName === 'issue') {
+      issueArguments.supply = BinaryUtils.hexToBigInt(args[2]).toString();
+      issueArguments.decimals = BinaryUtils.hexToNumber(args[3]);
+    } else if (functionName === 'registerMetaESDT') {
+      issueArguments.decimals = BinaryUtils.hexToNumber(args[2]);
+    }
+
+    return this.createAction(TransactionActionCategory.esdt, functionName, `${TransactionActionService.issueDescriptions[functionName]} ${name} (${ticker})`, issueArguments);
+  }
+
+  private getSpecialRoleAction(functionName: string, args: string[]): TransactionAction {
+    let token = BinaryUtils.hexToString(args[0]);
+    let address = AddressUtils.bech32Encode(args[1]);
+    let roles = args.slice(2).map(role => BinaryUtils.hexToString(role));
+    let verb = functionName === 'setSpecialRole' ? 'Set' : 'Unset';
+
+    return this.createAction(TransactionActionCategory.esdt, functionName, `${verb} roles ${roles.join(', ')} for ${address} on ${token}`, { token, address, roles });
+  }
+
+  private getTransferCreateRoleAction(args: string[]): TransactionAction {
+    let collection = BinaryUtils.hexToString(args[0]);
+    let from = AddressUtils.bech32Encode(args[1]);
+    let to = AddressUtils.bech32Encode(args[2]);
+
+    return this.createAction(TransactionActionCategory.esdt, 'transferNFTCreateRole', `Transfer NFT create role on ${collection} from ${from} to ${to}`, { collection, from, to });
+  }
+
+  private getDnsAction(metadata: TransactionMetadata): TransactionAction | undefined {
+    if (metadata.functionName !== 'register' || metadata.functionArgs.length !== 1) {
+      return undefined;
+    }
+
+    let username = BinaryUtils.hexToString(metadata.functionArgs[0]);
+
+    return this.createAction(TransactionActionCategory.dns, 'register', `Register username ${username}`, { username });
+  }
+
+  private getDeployAction(metadata: TransactionMetadata): TransactionAction {
+    // the function name is the code itself, which is left out of the arguments
+    let [ vmType, codeMetadata ] = metadata.functionArgs;
+
+    return this.createAction(TransactionActionCategory.smartContract, 'deploy', 'Deploy smart contract', { vmType, codeMetadata });
+  }
+
+  private getUpgradeAction(metadata: TransactionMetadata): TransactionAction {
+    let [ , codeMetadata ] = metadata.functionArgs;
+
+    return this.createAction(TransactionActionCategory.smartContract, 'upgrade', `Upgrade smart contract ${metadata.receiver}`, { contract: metadata.receiver, codeMetadata });
+  }
+
+  private getEgldDescription(value: string): string {
+    return `${NumberUtils.toDenominatedString(BigInt(value), TransactionActionService.egldDecimals)} EGLD`;
+  }
+
+  private createAction(category: TransactionActionCategory, name: string, description: string, args: TransactionActionArguments): TransactionAction {
+    let action = new TransactionAction();
+    action.category = category;
+    action.name = name;
+    action.description = description;
+    action.arguments = args;
+
+    return action;
+  }
+}
@@ -14,6 +14,8 @@ import { TransactionDetailed } from './entities/transaction.detailed';
 import { TransactionSendResult } from './entities/transaction.send.result';
 import { TransactionStatus } from './entities/transaction.status';
 import { TransactionService } from './transaction.service';
+import { ParseCursorPipe } from 'src/utils/pipes/parse.cursor.pipe';
+import { CursorPage } from 'src/common/entities/cursor.page';
 
 @Controller()
 @ApiTags('transactions')
@@ -40,9 +42,11 @@ export class TransactionController {
   @ApiQuery({ name: 'after', description: 'After timestamp', required: false })
   @ApiQuery({ name: 'from', description: 'Numer of items to skip for the result set', required: false  })
   @ApiQuery({ name: 'size', description: 'Number of items to retrieve', required: false  })
+  @ApiQuery({ name: 'cursor', description: 'Cursor returned in the x-cursor header of the previous page, for paginating past the first 10000 items', required: false })
   @ApiQuery({ name: 'condition', description: 'Condition for elastic search queries', required: false  })
   @ApiQuery({ name: 'withScResults', description: 'Return results for transactions', required: false })
   @ApiQuery({ name: 'withOperations', description: 'Return operations for transactions', required: false })
+  @ApiQuery({ name: 'fields', description: 'List of fields to filter by', required: false })
   getTransactions(
     @Query('sender', ParseAddressPipe) sender: string | undefined, 
     @Query('receiver', ParseAddressPipe) receiver: string | undefined, 
@@ -58,10 +62,12 @@ export class TransactionController {
     @Query('after', ParseOptionalIntPipe) after: number | undefined, 
     @Query('from', new DefaultValuePipe(0), ParseIntPipe) from: number, 
     @Query('size', new DefaultValuePipe(25), ParseIntPipe) size: number,
+    @Query('cursor', ParseCursorPipe) cursor: string | undefined,
     @Query('withScResults', new ParseOptionalBoolPipe) withScResults: boolean | undefined,
     @Query('withOperations', new ParseOptionalBoolPipe) withOperations: boolean | undefined,
-  ): Promise<Transaction[]> {
-    return this.transactionService.getTransactions({
+    @Query('fields', ParseArrayPipe) fields: string[] | undefined,
+  ): Promise<CursorPage<Transaction | TransactionDetailed>> {
+    return this.transactionService.getTransactionsPage({
         sender, 
         receiver, 
         token,
@@ -74,7 +80,7 @@ export class TransactionController {
         before,
         after,
         condition,
-    }, { from, size }, { withScResults, withOperations });
+    }, { from, size, cursor }, { withScResults, withOperations, fields });
   }
 
   @Get("/transactions/count")
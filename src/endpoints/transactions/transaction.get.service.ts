@@ -18,9 +18,23 @@ import { TransactionOperation } from "./entities/transaction.operation";
 import { TransactionOptionalFieldOption } from "./entities/transaction.optional.field.options";
 import { TransactionReceipt } from "./entities/transaction.receipt";
 import { TokenTransferService } from "./token.transfer.service";
+import { FieldsUtils } from "src/utils/fields.utils";
 
 @Injectable()
 export class TransactionGetService {
+  // response fields which are computed out of other properties of the elastic transaction document
+  static readonly sourceFields: { [field: string]: string[] } = {
+    txHash: [],
+    tokenIdentifier: [ 'data', 'tokens', 'esdtValues' ],
+    tokenValue: [ 'data', 'tokens', 'esdtValues' ],
+    results: [ 'hasScResults', 'scResults' ],
+    operations: [ 'hasScResults' ],
+    logs: [ 'hasScResults' ],
+    receipt: [],
+    price: [ 'timestamp', 'value' ],
+    action: [ 'data', 'sender', 'receiver', 'value' ],
+  };
+
   private readonly logger: Logger
 
   constructor(
@@ -76,7 +90,7 @@ export class TransactionGetService {
 
   async tryGetTransactionFromElastic(txHash: string, fields?: string[]): Promise<TransactionDetailed | null> {
     try {
-      const result = await this.elasticService.getItem('transactions', 'txHash', txHash);
+      const result = await this.elasticService.getItem('transactions', 'txHash', txHash, FieldsUtils.getSourceIncludes(fields, TransactionGetService.sourceFields));
       if (!result) {
         return null;
       }
@@ -96,7 +110,7 @@ export class TransactionGetService {
       hashes.push(txHash);
 
       if (!this.apiConfigService.getUseLegacyElastic()) {
-        if (result.hasScResults === true && (!fields || fields.length === 0 || fields.includes(TransactionOptionalFieldOption.results))) {
+        if (result.hasScResults === true && FieldsUtils.isRequested(fields, TransactionOptionalFieldOption.results, TransactionOptionalFieldOption.logs, TransactionOptionalFieldOption.operations)) {
           transactionDetailed.results = await this.getTransactionScResultsFromElastic(transactionDetailed.txHash);
 
           for (let scResult of transactionDetailed.results) {
@@ -104,7 +118,7 @@ export class TransactionGetService {
           }
         }
         
-        if (!fields || fields.length === 0 || fields.includes(TransactionOptionalFieldOption.receipt)) {
+        if (FieldsUtils.isRequested(fields, TransactionOptionalFieldOption.receipt)) {
           const receiptHashQuery = QueryType.Match('receiptHash', txHash);
           const elasticQueryReceipts = ElasticQuery.create()
             .withPagination({ from: 0, size: 1})
@@ -117,7 +131,7 @@ export class TransactionGetService {
           }
         }
 
-        if (!fields || fields.length === 0 || fields.includes(TransactionOptionalFieldOption.logs)) {
+        if (FieldsUtils.isRequested(fields, TransactionOptionalFieldOption.logs, TransactionOptionalFieldOption.operations)) {
           const logs = await this.getTransactionLogsFromElastic(hashes);
           let transactionLogs: TransactionLog[] = logs.map(log => ApiUtils.mergeObjects(new TransactionLog(), log._source));
 
@@ -1,7 +1,9 @@
 import { forwardRef, Module } from "@nestjs/common";
 import { CommonModule } from "src/common/common.module";
 import { PluginModule } from "src/plugins/plugin.module";
+import { EsdtModule } from "../esdt/esdt.module";
 import { TokenTransferService } from "./token.transfer.service";
+import { TransactionActionService } from "./transaction.action.service";
 import { TransactionGetService } from "./transaction.get.service";
 import { TransactionPriceService } from "./transaction.price.service";
 import { TransactionService } from "./transaction.service";
@@ -10,12 +12,13 @@ import { TransactionService } from "./transaction.service";
   imports: [
     forwardRef(() => CommonModule),
     forwardRef(() => PluginModule),
+    forwardRef(() => EsdtModule),
   ],
   providers: [
-    TokenTransferService, TransactionGetService, TransactionPriceService, TransactionService,
+    TokenTransferService, TransactionActionService, TransactionGetService, TransactionPriceService, TransactionService,
   ],
   exports: [
-    TokenTransferService, TransactionGetService, TransactionPriceService, TransactionService,
+    TokenTransferService, TransactionActionService, TransactionGetService, TransactionPriceService, TransactionService,
   ]
 })
 export class TransactionModule { }
\ No newline at end of file
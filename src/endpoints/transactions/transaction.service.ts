@@ -9,13 +9,17 @@ import { TransactionFilter } from './entities/transaction.filter';
 import { TransactionSendResult } from './entities/transaction.send.result';
 import { QueryOperator } from 'src/common/elastic/entities/query.operator';
 import { TransactionGetService } from './transaction.get.service';
+import { TransactionOptionalFieldOption } from './entities/transaction.optional.field.options';
+import { FieldsUtils } from 'src/utils/fields.utils';
 import { TokenTransferService } from './token.transfer.service';
+import { TransactionActionService } from './transaction.action.service';
 import { TransactionPriceService } from './transaction.price.service';
 import { TransactionQueryOptions } from './entities/transactions.query.options';
 import { SmartContractResult } from '../sc-results/entities/smart.contract.result';
 import { GatewayService } from 'src/common/gateway/gateway.service';
 import { TransactionLog } from './entities/transaction.log';
 import { QueryPagination } from 'src/common/entities/query.pagination';
+import { CursorPage } from 'src/common/entities/cursor.page';
 import { ElasticService } from 'src/common/elastic/elastic.service';
 import { ElasticQuery } from 'src/common/elastic/entities/elastic.query';
 import { AbstractQuery } from 'src/common/elastic/entities/abstract.query';
@@ -39,6 +43,7 @@ export class TransactionService {
     private readonly transactionPriceService: TransactionPriceService,
     private readonly transactionGetService: TransactionGetService,
     private readonly tokenTransferService: TokenTransferService,
+    private readonly transactionActionService: TransactionActionService,
     private readonly pluginsService: PluginService,
     private readonly cachingService: CachingService,
   ) {
@@ -47,12 +52,12 @@ export class TransactionService {
 
   private buildTransactionFilterQuery(filter: TransactionFilter, address?: string): ElasticQuery {
     let queries: AbstractQuery[] = [];
-    let shouldQueries: AbstractQuery[] = [];
+    let addressQueries: AbstractQuery[] = [];
     let mustQueries: AbstractQuery[] = [];
 
     if (address) {
-      shouldQueries.push(QueryType.Match('sender', address));
-      shouldQueries.push(QueryType.Match('receiver', address));
+      addressQueries.push(QueryType.Match('sender', address));
+      addressQueries.push(QueryType.Match('receiver', address));
     }
 
     if (filter.sender) {
@@ -76,29 +81,35 @@ export class TransactionService {
     }
 
     if (filter.miniBlockHash) {
-      queries.push(QueryType.Match('miniBlockHash', filter.miniBlockHash));
+      queries.push(QueryType.Term('miniBlockHash', filter.miniBlockHash));
     }
 
     if (filter.hashes) {
-      queries.push(QueryType.Should(filter.hashes.map(hash => QueryType.Match('_id', hash))));
+      queries.push(QueryType.Terms('_id', filter.hashes));
     }
 
     if (filter.status) {
-      queries.push(QueryType.Match('status', filter.status));
+      queries.push(QueryType.Term('status', filter.status));
     }
 
     if (filter.search) {
-      queries.push(QueryType.Wildcard('data', `*${filter.search}*`));
+      queries.push(QueryType.Match('data', filter.search, QueryOperator.AND));
     }
 
     if (filter.condition === QueryConditionOptions.should) {
-      shouldQueries = [...shouldQueries, ...queries];
+      let shouldQueries = [...addressQueries, ...queries];
+      if (shouldQueries.length > 0) {
+        mustQueries.push(QueryType.Bool({ should: shouldQueries }));
+      }
     } else {
-      mustQueries = queries;
+      if (addressQueries.length > 0) {
+        mustQueries.push(QueryType.Bool({ should: addressQueries }));
+      }
+
+      mustQueries.push(...queries);
     }
 
     let elasticQuery = ElasticQuery.create()
-      .withCondition(QueryConditionOptions.should, shouldQueries)
       .withCondition(QueryConditionOptions.must, mustQueries);
 
 
@@ -116,6 +127,8 @@ export class TransactionService {
       async() => await this.getTransactionCountForAddressRaw(address),
       CacheInfo.TxCount(address).ttl,
       Constants.oneSecond(),
+      undefined,
+      CacheInfo.TxCount(address).tags,
     )
   }
   
@@ -173,29 +186,51 @@ export class TransactionService {
   }
 
   async getTransactions(filter: TransactionFilter, pagination: QueryPagination, queryOptions?: TransactionQueryOptions, address?: string): Promise<(Transaction | TransactionDetailed)[]> {
-    const timestamp: ElasticSortProperty = { name: 'timestamp', order: ElasticSortOrder.descending };
-    const nonce: ElasticSortProperty = { name: 'nonce', order: ElasticSortOrder.descending };
+    let page = await this.getTransactionsPage(filter, pagination, queryOptions, address);
+
+    return page.items;
+  }
 
+  async iterateTransactions(filter: TransactionFilter, address: string | undefined, handler: (transactions: Transaction[]) => Promise<boolean>): Promise<void> {
     let elasticQuery = this.buildTransactionFilterQuery(filter, address)
-      .withPagination({ from: pagination.from, size: pagination.size })
-      .withSort([timestamp, nonce]);
+      .withSort(this.getTransactionSort());
 
-    let elasticTransactions = await this.elasticService.getList('transactions', 'txHash', elasticQuery);
+    await this.elasticService.iterate('transactions', 'txHash', elasticQuery, async (elasticTransactions) => {
+      return await handler(elasticTransactions.map((elasticTransaction) => this.mapElasticTransaction(elasticTransaction)));
+    });
+  }
 
-    let transactions: (Transaction | TransactionDetailed)[] = [];
+  private getTransactionSort(): ElasticSortProperty[] {
+    const timestamp: ElasticSortProperty = { name: 'timestamp', order: ElasticSortOrder.descending };
+    const nonce: ElasticSortProperty = { name: 'nonce', order: ElasticSortOrder.descending };
+    // a sender never reuses a nonce, so the sender breaks the remaining ties without sorting on the _id fielddata
+    const sender: ElasticSortProperty = { name: 'sender', order: ElasticSortOrder.ascending };
 
-    for (let elasticTransaction of elasticTransactions) {
-      let transaction = ApiUtils.mergeObjects(new Transaction(), elasticTransaction);
+    return [timestamp, nonce, sender];
+  }
 
-      let tokenTransfer = this.tokenTransferService.getTokenTransfer(elasticTransaction);
-      if (tokenTransfer) {
-        transaction.tokenValue = tokenTransfer.tokenAmount;
-        transaction.tokenIdentifier = tokenTransfer.tokenIdentifier;
-      }
+  private mapElasticTransaction(elasticTransaction: any): Transaction {
+    let transaction = ApiUtils.mergeObjects(new Transaction(), elasticTransaction);
 
-      transactions.push(transaction);
+    let tokenTransfer = this.tokenTransferService.getTokenTransfer(elasticTransaction);
+    if (tokenTransfer) {
+      transaction.tokenValue = tokenTransfer.tokenAmount;
+      transaction.tokenIdentifier = tokenTransfer.tokenIdentifier;
     }
 
+    return transaction;
+  }
+
+  async getTransactionsPage(filter: TransactionFilter, pagination: QueryPagination, queryOptions?: TransactionQueryOptions, address?: string): Promise<CursorPage<Transaction | TransactionDetailed>> {
+    let elasticQuery = this.buildTransactionFilterQuery(filter, address)
+      .withPagination({ from: pagination.from, size: pagination.size, cursor: pagination.cursor })
+      .withSort(this.getTransactionSort())
+      .withIncludes(FieldsUtils.getSourceIncludes(queryOptions?.fields, TransactionGetService.sourceFields));
+
+    let { items: elasticTransactions, cursor } = await this.elasticService.getPage('transactions', 'txHash', elasticQuery);
+
+    let transactions: (Transaction | TransactionDetailed)[] = elasticTransactions.map((elasticTransaction) => this.mapElasticTransaction(elasticTransaction));
+
     if (filter.hashes) {
       const txHashes: string[] = filter.hashes;
       const elasticHashes = elasticTransactions.map(({ txHash }) => txHash);
@@ -209,7 +244,10 @@ export class TransactionService {
       }
     }
 
-    if (queryOptions && (queryOptions.withScResults || queryOptions.withOperations) && elasticTransactions.some(x => x.hasScResults === true)) {
+    let withScResults = queryOptions?.withScResults === true && FieldsUtils.isRequested(queryOptions.fields, TransactionOptionalFieldOption.results);
+    let withOperations = queryOptions?.withOperations === true && FieldsUtils.isRequested(queryOptions.fields, TransactionOptionalFieldOption.operations);
+
+    if ((withScResults || withOperations) && elasticTransactions.some(x => x.hasScResults === true)) {
       // Add scResults to transaction details
 
       const elasticQuery = ElasticQuery.create()
@@ -224,16 +262,16 @@ export class TransactionService {
         delete scResult.scHash;
       }
 
-      const detailedTransactions: TransactionDetailed[] = [];
-      for (let transaction of transactions) {
+      // the logs of all the transactions are requested concurrently, so that they get merged into a single elastic request
+      transactions = await Promise.all(transactions.map(async (transaction) => {
         const transactionDetailed = ApiUtils.mergeObjects(new TransactionDetailed(), transaction);
         const transactionsScResults = scResults.filter(({ originalTxHash }) => originalTxHash == transaction.txHash);
 
-        if (queryOptions.withScResults) {
+        if (withScResults) {
           transactionDetailed.results = transactionsScResults.map(scResult => ApiUtils.mergeObjects(new SmartContractResult(), scResult));
         }
 
-        if (queryOptions.withOperations) {
+        if (withOperations) {
           const hashes: string[] = [transactionDetailed.txHash];
           for (let scResult of transactionsScResults) {
             hashes.push(scResult.hash);
@@ -245,17 +283,23 @@ export class TransactionService {
           transactionDetailed.operations = this.transactionGetService.trimOperations(transactionDetailed.operations);
         }
 
-        detailedTransactions.push(transactionDetailed);
-      }
+        return transactionDetailed;
+      }));
+    }
 
-      transactions = detailedTransactions;
+    if (FieldsUtils.isRequested(queryOptions?.fields, TransactionOptionalFieldOption.action)) {
+      await Promise.all(transactions.map(async (transaction) => transaction.action = await this.transactionActionService.getTransactionAction(transaction)));
     }
 
     for (let transaction of transactions) {
       await this.processTransaction(transaction);
     }
 
-    return transactions;
+    let page = new CursorPage<Transaction | TransactionDetailed>();
+    page.items = transactions;
+    page.cursor = cursor;
+
+    return page;
   }
 
   async getTransaction(txHash: string, fields?: string[]): Promise<TransactionDetailed | null> {
@@ -266,8 +310,13 @@ export class TransactionService {
     }
 
     if (transaction !== null) {
+      // decoded before the plugins run, so that they can still override it
+      if (FieldsUtils.isRequested(fields, TransactionOptionalFieldOption.action)) {
+        transaction.action = await this.transactionActionService.getTransactionAction(transaction);
+      }
+
       const [price] = await Promise.all([
-        this.getTransactionPrice(transaction),
+        FieldsUtils.isRequested(fields, TransactionOptionalFieldOption.price) ? this.getTransactionPrice(transaction) : undefined,
         this.processTransaction(transaction),
       ]);
       transaction.price = price;
@@ -1,4 +1,4 @@
-import { CallHandler, ExecutionContext, HttpException, Injectable, NestInterceptor } from "@nestjs/common";
+import { CallHandler, ExecutionContext, HttpStatus, Injectable, NestInterceptor } from "@nestjs/common";
 import { HttpAdapterHost } from "@nestjs/core";
 import { Observable, of, throwError } from "rxjs";
 import { catchError, tap } from 'rxjs/operators';
@@ -6,7 +6,12 @@ import { MetricsService } from "src/common/metrics/metrics.service";
 import { CachingService } from "src/common/caching/caching.service";
 import { ProtocolService } from "src/common/protocol/protocol.service";
 import { NoCacheOptions } from "src/decorators/no.cache";
+import { CacheTtlOptions } from "src/decorators/cache.ttl";
 import { DecoratorUtils } from "src/utils/decorator.utils";
+import { CachePriority } from "src/common/caching/entities/cache.priority";
+import { CachedResponse } from "src/common/caching/entities/cached.response";
+import { createHash } from "crypto";
+import { PaginationInterceptor } from "./pagination.interceptor";
 
 @Injectable()
 export class CachingInterceptor implements NestInterceptor {
@@ -27,6 +32,11 @@ export class CachingInterceptor implements NestInterceptor {
       return next.handle();
     }
 
+    let cacheTtlOptions = DecoratorUtils.getMethodDecorator(CacheTtlOptions, context.getHandler()) ?? new CacheTtlOptions();
+    if (cacheTtlOptions.ttl === 0) {
+      return next.handle();
+    }
+
     this.metricsService.setPendingRequestsCount(Object.keys(this.pendingRequestsDictionary).length);
 
     let cacheKey = this.getCacheKey(context);
@@ -36,19 +46,31 @@ export class CachingInterceptor implements NestInterceptor {
         let result = await pendingRequest;
         this.metricsService.incrementPendingApiHit(apiFunction);
 
-        if (result instanceof HttpException) {
+        if (result instanceof Error) {
           return throwError(() => result);
         } else {
-          return of(result);
+          return this.getConditionalResponse(context, result);
         }
       }
 
-      let cachedValue = await this.cachingService.getCacheLocal(cacheKey);
-      if (cachedValue) {
+      let cachedResponse = await this.cachingService.getCacheLocal<CachedResponse>(cacheKey);
+      if (cachedResponse) {
         this.metricsService.incrementCachedApiHit(apiFunction);
-        return of(cachedValue);
+        return this.getConditionalResponse(context, cachedResponse);
       }
 
+      if (cacheTtlOptions.shared) {
+        let { value: sharedResponse, remainingTtl } = await this.cachingService.getCacheRemoteWithTtl<CachedResponse>(this.getSharedCacheKey(cacheKey));
+        if (sharedResponse && remainingTtl > 0) {
+          await this.cachingService.setCacheLocal(cacheKey, sharedResponse, remainingTtl, CachePriority.low);
+
+          this.metricsService.incrementCachedApiHit(apiFunction);
+          return this.getConditionalResponse(context, sharedResponse);
+        }
+      }
+
+      let ttl = await this.getTtl(cacheTtlOptions);
+
       let pendingRequestResolver: (value: any) => null;
       this.pendingRequestsDictionary[cacheKey] = new Promise((resolve) => {
         // @ts-ignore
@@ -59,13 +81,24 @@ export class CachingInterceptor implements NestInterceptor {
         .handle()
         .pipe(
           tap(async (result: any) => {
+            let cachedResponse: CachedResponse = {
+              value: result,
+              etag: this.computeEtag(result),
+              expires: Math.round(Date.now() / 1000) + ttl,
+              cursor: context.switchToHttp().getResponse().getHeader(PaginationInterceptor.cursorHeader),
+            };
+
+            this.setCachingHeaders(context, cachedResponse);
+
             delete this.pendingRequestsDictionary[cacheKey ?? ''];
-            pendingRequestResolver(result);
+            pendingRequestResolver(cachedResponse);
             this.metricsService.setPendingRequestsCount(Object.keys(this.pendingRequestsDictionary).length);
     
-            let ttl = await this.protocolService.getSecondsRemainingUntilNextRound();
-    
-            await this.cachingService.setCacheLocal(cacheKey!!, result, ttl);
+            await this.cachingService.setCacheLocal(cacheKey!!, cachedResponse, ttl, CachePriority.low);
+
+            if (cacheTtlOptions.shared && ttl > 0) {
+              await this.cachingService.setCacheRemote(this.getSharedCacheKey(cacheKey!!), cachedResponse, ttl);
+            }
           }),
           catchError((err) => {
             delete this.pendingRequestsDictionary[cacheKey ?? ''];
@@ -80,6 +113,73 @@ export class CachingInterceptor implements NestInterceptor {
     return next.handle();
   }
 
+  private async getTtl(cacheTtlOptions: CacheTtlOptions): Promise<number> {
+    if (cacheTtlOptions.ttl === 'round') {
+      return await this.protocolService.getSecondsRemainingUntilNextRound();
+    }
+
+    if (cacheTtlOptions.ttl === 'epoch') {
+      return await this.protocolService.getSecondsRemainingUntilNextEpoch();
+    }
+
+    return cacheTtlOptions.ttl;
+  }
+
+  private getSharedCacheKey(cacheKey: string): string {
+    return `response:${cacheKey}`;
+  }
+
+  private getConditionalResponse(context: ExecutionContext, cachedResponse: CachedResponse): Observable<any> {
+    this.setCachingHeaders(context, cachedResponse);
+
+    const request = context.getArgByIndex(0);
+    if (this.matchesEtag(request.headers['if-none-match'], cachedResponse.etag)) {
+      const response = context.switchToHttp().getResponse();
+      this.httpAdapterHost.httpAdapter.status(response, HttpStatus.NOT_MODIFIED);
+
+      return of(undefined);
+    }
+
+    return of(cachedResponse.value);
+  }
+
+  private setCachingHeaders(context: ExecutionContext, cachedResponse: CachedResponse) {
+    const httpAdapter = this.httpAdapterHost.httpAdapter;
+    const response = context.switchToHttp().getResponse();
+
+    let ttl = Math.max(cachedResponse.expires - Math.round(Date.now() / 1000), 0);
+
+    httpAdapter.setHeader(response, 'ETag', cachedResponse.etag);
+    httpAdapter.setHeader(response, 'Cache-Control', `max-age=${ttl}`);
+
+    if (cachedResponse.cursor) {
+      httpAdapter.setHeader(response, PaginationInterceptor.cursorHeader, cachedResponse.cursor);
+    }
+  }
+
+  private matchesEtag(ifNoneMatch: string | undefined, etag: string): boolean {
+    if (!ifNoneMatch) {
+      return false;
+    }
+
+    if (ifNoneMatch.trim() === '*') {
+      return true;
+    }
+
+    return ifNoneMatch
+      .split(',')
+      .map(tag => tag.trim().replace(/^W\//, ''))
+      .includes(etag);
+  }
+
+  private computeEtag(value: any): string {
+    let hash = createHash('sha1')
+      .update(JSON.stringify(value) ?? '')
+      .digest('base64');
+
+    return `"${hash}"`;
+  }
+
   getCacheKey(context: ExecutionContext): string | undefined {
       const httpAdapter = this.httpAdapterHost.httpAdapter;
 
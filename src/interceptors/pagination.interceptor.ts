@@ -1,19 +1,46 @@
 import { CallHandler, ExecutionContext, HttpException, HttpStatus, Injectable, NestInterceptor } from "@nestjs/common";
+import { HttpAdapterHost } from "@nestjs/core";
 import { Observable } from "rxjs";
+import { map } from 'rxjs/operators';
+import { CursorPage } from "src/common/entities/cursor.page";
 
 const MAX_REQUEST_PAGINATION: number = 10000;
 @Injectable()
 export class PaginationInterceptor implements NestInterceptor {
+  static readonly cursorHeader = 'x-cursor';
+
+  constructor(
+    private readonly httpAdapterHost: HttpAdapterHost,
+  ) {}
+
   async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
     const request = context.getArgByIndex(0);
 
     let from: number = parseInt(request.query.from || 0);
     let size: number = parseInt(request.query.size || 0);
 
+    // when paginating with a cursor, elastic continues after the previous page instead of skipping 'from' items
+    if (request.query.cursor) {
+      from = 0;
+    }
+
     if (from + size > MAX_REQUEST_PAGINATION) {
       throw new HttpException(`Result window is too large, from + size must be less than or equal to: [${MAX_REQUEST_PAGINATION}] but was [${from + size}]`, HttpStatus.BAD_REQUEST);
     }
 
-    return next.handle();
+    return next
+      .handle()
+      .pipe(map(result => {
+        if (!(result instanceof CursorPage)) {
+          return result;
+        }
+
+        if (result.cursor) {
+          const response = context.switchToHttp().getResponse();
+          this.httpAdapterHost.httpAdapter.setHeader(response, PaginationInterceptor.cursorHeader, result.cursor);
+        }
+
+        return result.items;
+      }));
   }
-}
\ No newline at end of file
+}
@@ -27,6 +27,9 @@ import { ProtocolService } from './common/protocol/protocol.service';
 import { PaginationInterceptor } from './interceptors/pagination.interceptor';
 import { LogRequestsInterceptor } from './interceptors/log.requests.interceptor';
 import { NestExpressApplication } from '@nestjs/platform-express';
+import { CacheBackendType } from './common/caching/entities/cache.backend.type';
+import { CacheSnapshotService } from './common/caching/cache.snapshot.service';
+import { RequestContext } from './utils/request.context';
 
 async function bootstrap() {
   const publicApp = await NestFactory.create<NestExpressApplication>(
@@ -34,7 +37,8 @@ async function bootstrap() {
   );
   publicApp.use(bodyParser.json({ limit: '1mb' }));
   publicApp.use(requestIp.mw());
-  publicApp.enableCors();
+  publicApp.use((_: any, __: any, next: () => void) => RequestContext.run(next));
+  publicApp.enableCors({ exposedHeaders: [ PaginationInterceptor.cursorHeader ] });
   publicApp.useLogger(publicApp.get(WINSTON_MODULE_NEST_PROVIDER));
   publicApp.disable('etag');
   publicApp.disable('x-powered-by');
@@ -45,6 +49,7 @@ async function bootstrap() {
   let metricsService = publicApp.get<MetricsService>(MetricsService);
   let tokenAssetService = publicApp.get<TokenAssetService>(TokenAssetService);
   let protocolService = publicApp.get<ProtocolService>(ProtocolService);
+  let cacheSnapshotService = publicApp.get<CacheSnapshotService>(CacheSnapshotService);
 
   if (apiConfigService.getIsAuthActive()) {
     publicApp.useGlobalGuards(new JwtAuthenticateGuard(apiConfigService));
@@ -60,6 +65,14 @@ async function bootstrap() {
 
   await tokenAssetService.checkout();
 
+  if (apiConfigService.getPreloadCacheSnapshotFlag()) {
+    try {
+      await cacheSnapshotService.importSnapshot(apiConfigService.getCacheSnapshotPath());
+    } catch (error) {
+      new Logger('Bootstrapper').error(`Could not preload cache snapshot: ${error}`);
+    }
+  }
+
   let globalInterceptors: NestInterceptor[] = [];
   globalInterceptors.push(new LoggingInterceptor(metricsService));
 
@@ -81,7 +94,7 @@ async function bootstrap() {
   globalInterceptors.push(new FieldsInterceptor());
   globalInterceptors.push(new ExtractInterceptor());
   globalInterceptors.push(new CleanupInterceptor());
-  globalInterceptors.push(new PaginationInterceptor());
+  globalInterceptors.push(new PaginationInterceptor(httpAdapterHostService));
 
   publicApp.useGlobalInterceptors(...globalInterceptors);
   const description = readFileSync(
@@ -127,21 +140,23 @@ async function bootstrap() {
 
   let logger = new Logger('Bootstrapper');
 
-  const pubSubApp = await NestFactory.createMicroservice<MicroserviceOptions>(
-    MicroserviceModule,
-    {
-      transport: Transport.REDIS,
-      options: {
-        url: `redis://${apiConfigService.getRedisUrl()}:6379`,
-        retryAttempts: 100,
-        retryDelay: 1000,
-        retry_strategy: function (_: any) {
-          return 1000;
+  if (apiConfigService.getCacheBackendType() !== CacheBackendType.memory) {
+    const pubSubApp = await NestFactory.createMicroservice<MicroserviceOptions>(
+      MicroserviceModule,
+      {
+        transport: Transport.REDIS,
+        options: {
+          url: `redis://${apiConfigService.getRedisUrl()}:6379`,
+          retryAttempts: 100,
+          retryDelay: 1000,
+          retry_strategy: function (_: any) {
+            return 1000;
+          },
         },
       },
-    },
-  );
-  pubSubApp.listen();
+    );
+    pubSubApp.listen();
+  }
 
   logger.log(`Public API active: ${apiConfigService.getIsPublicApiActive()}`);
   logger.log(`Private API active: ${apiConfigService.getIsPrivateApiActive()}`);
@@ -151,6 +166,7 @@ async function bootstrap() {
   logger.log(
     `Cache warmer active: ${apiConfigService.getIsCacheWarmerCronActive()}`,
   );
+  logger.log(`Cache backend: ${apiConfigService.getCacheBackendType()}`);
 }
 
 bootstrap();
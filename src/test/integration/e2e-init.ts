@@ -2,6 +2,9 @@ import { Test } from "@nestjs/testing";
 import { ApiConfigService } from "src/common/api-config/api.config.service";
 import { CachingService } from "src/common/caching/caching.service";
 import { CacheInfo } from "src/common/caching/entities/cache.info";
+import { ElasticService } from "src/common/elastic/elastic.service";
+import { ElasticSearchRequest } from "src/common/elastic/entities/elastic.search.request";
+import { GatewayService } from "src/common/gateway/gateway.service";
 import { KeybaseIdentity } from "src/common/keybase/entities/keybase.identity";
 import { KeybaseService } from "src/common/keybase/keybase.service";
 import { EsdtService } from "src/endpoints/esdt/esdt.service";
@@ -11,6 +14,8 @@ import { PublicAppModule } from "src/public.app.module";
 import { Constants } from "src/utils/constants";
 import { FileUtils } from "src/utils/file.utils";
 import "../../utils/extensions/jest.extensions";
+import InMemoryElastic from "./in-memory-elastic";
+import InMemoryGateway from "./in-memory-gateway";
 
 export default class Initializer {
   private static cachingService: CachingService;
@@ -40,6 +45,24 @@ export default class Initializer {
 
       const queue = FileUtils.parseJSONFile(`${MOCK_PATH}queue.mock.json`);
       jest.spyOn(NodeService.prototype, "getQueue").mockImplementation(jest.fn(async() => queue));
+
+      jest.spyOn(ProviderService.prototype, "getDelegationProvidersRaw").mockImplementation(jest.fn(async() => []));
+    }
+
+    if (Initializer.apiConfigService.getMockElastic()) {
+      const MOCK_PATH = Initializer.apiConfigService.getMockPath();
+      const elastic = new InMemoryElastic(`${MOCK_PATH}elastic/`);
+      jest.spyOn(ElasticService.prototype, "multiSearch").mockImplementation(jest.fn(async(requests: ElasticSearchRequest[]) => await elastic.multiSearch(requests)));
+      jest.spyOn(ElasticService.prototype, "getDocument").mockImplementation(jest.fn(async(collection: string, identifier: string, includes?: string[]) => await elastic.getDocument(collection, identifier, includes)));
+      jest.spyOn(ElasticService.prototype, "checkHealth").mockImplementation(jest.fn(async() => {}));
+    }
+
+    if (Initializer.apiConfigService.getMockGateway()) {
+      const MOCK_PATH = Initializer.apiConfigService.getMockPath();
+      const gateway = new InMemoryGateway(`${MOCK_PATH}gateway.mock.json`);
+      jest.spyOn(GatewayService.prototype, "getRaw").mockImplementation(jest.fn(async(url: string) => gateway.execute(url)));
+      jest.spyOn(GatewayService.prototype, "createRaw").mockImplementation(jest.fn(async(url: string, _, data: any) => gateway.execute(url, data)));
+      jest.spyOn(GatewayService.prototype, "checkHealth").mockImplementation(jest.fn(async() => {}));
     }
 
     let isInitialized = await Initializer.cachingService.getCacheRemote<boolean>('isInitialized');
@@ -0,0 +1,304 @@
+import { ElasticSearchRequest } from "src/common/elastic/entities/elastic.search.request";
+import { FileUtils } from "src/utils/file.utils";
+
+const { existsSync } = require('fs');
+
+interface InMemoryDocument {
+  _id: string;
+  _source: any;
+}
+
+// evaluates the subset of the elastic query DSL emitted by ElasticQuery against fixture documents,
+// so that the e2e suites can run without a live elastic cluster
+export default class InMemoryElastic {
+  static readonly indices: string[] = [ 'transactions', 'blocks', 'tokens', 'accounts', 'accountsesdt', 'logs', 'scresults', 'rounds', 'validators' ];
+
+  private readonly documents: { [ index: string ]: InMemoryDocument[] } = {};
+
+  constructor(fixturesPath?: string) {
+    if (!fixturesPath) {
+      return;
+    }
+
+    for (let index of InMemoryElastic.indices) {
+      let path = `${fixturesPath}${index}.json`;
+      if (existsSync(path)) {
+        this.load(index, FileUtils.parseJSONFile(path));
+      }
+    }
+  }
+
+  load(index: string, documents: any[]) {
+    this.documents[index] = documents.map(({ _id, ...source }) => ({ _id, _source: source }));
+  }
+
+  async multiSearch(requests: ElasticSearchRequest[]): Promise<any[]> {
+    return requests.map(request => this.search(request.collection, request.body));
+  }
+
+  async getDocument(index: string, id: string, includes: string[] | undefined = undefined): Promise<any> {
+    let document = (this.documents[index] ?? []).find(document => document._id === id);
+    if (!document) {
+      return undefined;
+    }
+
+    return {
+      _index: index,
+      _id: document._id,
+      found: true,
+      _source: this.getSource(document._source, includes?.length === 0 ? false : includes),
+    };
+  }
+
+  search(index: string, body: any = {}): any {
+    let matches = (this.documents[index] ?? []).filter(document => this.matches(document, body.query));
+
+    let sort: any[] = body.sort ?? [];
+    matches.sort((a, b) => this.compareSortValues(this.getSortValues(a, sort), this.getSortValues(b, sort), sort));
+
+    let searchAfter = body.search_after;
+    if (searchAfter) {
+      matches = matches.filter(document => this.compareSortValues(this.getSortValues(document, sort), searchAfter, sort) > 0);
+    }
+
+    let from = body.from ?? 0;
+    let size = body.size ?? 10;
+
+    let hits = matches.slice(from, from + size).map(document => ({
+      _id: document._id,
+      _source: this.getSource(document._source, body._source),
+      sort: sort.length > 0 ? this.getSortValues(document, sort) : undefined,
+    }));
+
+    return {
+      took: 0,
+      hits: {
+        total: { value: matches.length, relation: 'eq' },
+        hits,
+      },
+      aggregations: {},
+    };
+  }
+
+  private matches(document: InMemoryDocument, query: any): boolean {
+    if (!query) {
+      return true;
+    }
+
+    // the keys of a query object are all required to match, e.g. a bool query next to a terms query
+    return Object.keys(query).every(type => this.matchesClause(document, type, query[type]));
+  }
+
+  private matchesClause(document: InMemoryDocument, type: string, clause: any): boolean {
+    switch (type) {
+      case 'match_all':
+        return true;
+      case 'bool':
+        return this.matchesBool(document, clause);
+      case 'ids':
+        return clause.values.includes(document._id);
+      case 'exists':
+        return this.getValues(document, clause.field).length > 0;
+      case 'nested':
+        return this.matchesNested(document, clause);
+      case 'multi_match':
+        return clause.fields.some((field: string) => this.matchesValue(document, field, (value: any) => this.isMatch(value, clause.query, clause.operator)));
+      default:
+        break;
+    }
+
+    let [ field ] = Object.keys(clause);
+    let value = clause[field];
+
+    switch (type) {
+      case 'match':
+        return typeof value === 'object' ?
+          this.matchesValue(document, field, (actual: any) => this.isMatch(actual, value.query, value.operator)) :
+          this.matchesValue(document, field, (actual: any) => this.isMatch(actual, value));
+      case 'term':
+        return this.matchesValue(document, field, (actual: any) => actual === value);
+      case 'terms':
+        return this.matchesValue(document, field, (actual: any) => value.includes(actual));
+      case 'prefix':
+        return this.matchesValue(document, field, (actual: any) => String(actual).startsWith(typeof value === 'object' ? value.value : value));
+      case 'wildcard':
+        return this.matchesValue(document, field, (actual: any) => this.getWildcardRegex(typeof value === 'object' ? value.value : value).test(String(actual)));
+      case 'fuzzy':
+        return this.matchesValue(document, field, (actual: any) => this.isFuzzyMatch(String(actual), typeof value === 'object' ? value.value : value));
+      case 'range':
+        return this.matchesValue(document, field, (actual: any) => this.isInRange(Number(actual), value));
+      default:
+        throw new Error(`Unsupported query type '${type}'`);
+    }
+  }
+
+  private matchesBool(document: InMemoryDocument, bool: any): boolean {
+    let must: any[] = [ ...(bool.must ?? []), ...(bool.filter ?? []) ];
+    if (!must.every(query => this.matches(document, query))) {
+      return false;
+    }
+
+    let mustNot: any[] = bool.must_not ?? [];
+    if (mustNot.some(query => this.matches(document, query))) {
+      return false;
+    }
+
+    let should: any[] = bool.should ?? [];
+    let minimumShouldMatch = bool.minimum_should_match ?? (must.length === 0 && mustNot.length === 0 ? 1 : 0);
+    if (should.length === 0) {
+      return true;
+    }
+
+    return should.filter(query => this.matches(document, query)).length >= minimumShouldMatch;
+  }
+
+  private matchesNested(document: InMemoryDocument, nested: any): boolean {
+    let values = this.getValues(document, nested.path);
+
+    // each nested object is matched on its own, with its properties still addressed through the nested path
+    return values.some(value => this.matches({ _id: document._id, _source: { [nested.path]: value } }, nested.query));
+  }
+
+  private matchesValue(document: InMemoryDocument, field: string, predicate: (value: any) => boolean): boolean {
+    return this.getValues(document, field).some(predicate);
+  }
+
+  private getValues(document: InMemoryDocument, field: string): any[] {
+    if (field === '_id') {
+      return [ document._id ];
+    }
+
+    let values: any[] = [ document._source ];
+    for (let property of field.split('.')) {
+      let nextValues: any[] = [];
+      for (let value of values) {
+        let propertyValue = value?.[property];
+        if (Array.isArray(propertyValue)) {
+          nextValues.push(...propertyValue);
+        } else if (propertyValue !== undefined && propertyValue !== null) {
+          nextValues.push(propertyValue);
+        }
+      }
+
+      values = nextValues;
+    }
+
+    return values;
+  }
+
+  // like the standard analyzer, text is split into lowercase terms, any of which matches unless the operator is 'and'
+  private isMatch(actual: any, expected: any, operator: string = 'or'): boolean {
+    if (typeof actual !== 'string' || typeof expected !== 'string') {
+      return actual === expected;
+    }
+
+    let actualTerms = this.getTerms(actual);
+    let expectedTerms = this.getTerms(expected);
+    if (expectedTerms.length === 0) {
+      return false;
+    }
+
+    if (operator.toLowerCase() === 'and') {
+      return expectedTerms.every(term => actualTerms.includes(term));
+    }
+
+    return expectedTerms.some(term => actualTerms.includes(term));
+  }
+
+  private getTerms(text: string): string[] {
+    return text.toLowerCase().split(/\W+/).filter(term => term.length > 0);
+  }
+
+  private isInRange(value: number, range: any): boolean {
+    return (range.gt === undefined || value > range.gt) &&
+      (range.gte === undefined || value >= range.gte) &&
+      (range.lt === undefined || value < range.lt) &&
+      (range.lte === undefined || value <= range.lte);
+  }
+
+  private getWildcardRegex(pattern: string): RegExp {
+    let escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+    return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+  }
+
+  private isFuzzyMatch(actual: string, expected: string): boolean {
+    let maxEdits = expected.length <= 2 ? 0 : expected.length <= 5 ? 1 : 2;
+
+    return this.getEditDistance(actual.toLowerCase(), expected.toLowerCase()) <= maxEdits;
+  }
+
+  private getEditDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+      let current = [ i ];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      }
+
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  private getSortValues(document: InMemoryDocument, sort: any[]): any[] {
+    return sort.map(property => this.getValues(document, Object.keys(property)[0])[0]);
+  }
+
+  private compareSortValues(a: any[], b: any[], sort: any[]): number {
+    for (let [index, property] of sort.entries()) {
+      let field = Object.keys(property)[0];
+      let direction = property[field].order === 'desc' ? -1 : 1;
+
+      let left = a[index];
+      let right = b[index];
+      if (left === right) {
+        continue;
+      }
+
+      // documents without a value are sorted last regardless of the order
+      if (left === undefined) {
+        return 1;
+      }
+
+      if (right === undefined) {
+        return -1;
+      }
+
+      return (left < right ? -1 : 1) * direction;
+    }
+
+    return 0;
+  }
+
+  private getSource(source: any, includes: string[] | false | undefined): any {
+    if (includes === false) {
+      return undefined;
+    }
+
+    if (!includes) {
+      return source;
+    }
+
+    let result: any = {};
+    for (let include of includes) {
+      let [ property, ...rest ] = include.split('.');
+      let value = source[property];
+      if (value === undefined) {
+        continue;
+      }
+
+      if (rest.length === 0 || typeof value !== 'object') {
+        result[property] = value;
+        continue;
+      }
+
+      let nestedValue = Array.isArray(value) ? value.map(item => this.getSource(item, [ rest.join('.') ])) : this.getSource(value, [ rest.join('.') ]);
+      result[property] = typeof result[property] === 'object' && !Array.isArray(result[property]) ? { ...result[property], ...nestedValue } : nestedValue;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,32 @@
+import { FileUtils } from "src/utils/file.utils";
+
+const { existsSync } = require('fs');
+
+// serves the gateway responses of the e2e suites from a fixture file, so that the suites can run without a live gateway.
+// responses are keyed by the requested url, vm queries by the contract, the function and, when they differ, the arguments
+export default class InMemoryGateway {
+  private readonly responses: { [ url: string ]: any } = {};
+
+  constructor(fixturesPath?: string) {
+    if (fixturesPath && existsSync(fixturesPath)) {
+      this.responses = FileUtils.parseJSONFile(fixturesPath);
+    }
+  }
+
+  async execute(url: string, data?: any): Promise<any> {
+    let keys = [ url ];
+    if (data?.FuncName) {
+      let key = `${url}/${data.scAddress}/${data.FuncName}`;
+      keys = [ `${key}/${(data.args ?? []).join(',')}`, key ];
+    }
+
+    let key = keys.find(key => this.responses[key] !== undefined) ?? keys[0];
+
+    let response = this.responses[key];
+    if (response === undefined) {
+      throw { status: 404, message: `No gateway fixture for '${key}'` };
+    }
+
+    return { data: { data: response, code: 'successful' } };
+  }
+}
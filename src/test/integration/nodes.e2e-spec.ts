@@ -1,5 +1,6 @@
 import { Test } from "@nestjs/testing";
 import { CachingService } from "src/common/caching/caching.service";
+import { CacheInfo } from "src/common/caching/entities/cache.info";
 import { KeybaseState } from "src/common/keybase/entities/keybase.state";
 import { Node } from "src/endpoints/nodes/entities/node";
 import { NodeFilter } from "src/endpoints/nodes/entities/node.filter";
@@ -47,7 +48,7 @@ describe('Node Service', () => {
     });
 
     it('should be in sync with keybase confirmations', async () => {
-      const nodeKeybases:{ [key: string]: KeybaseState } | undefined = await cachingService.getCache('nodeKeybases');
+      const nodeKeybases:{ [key: string]: KeybaseState } | undefined = await cachingService.getCache(CacheInfo.Keybases.key);
       expect(nodeKeybases).toBeDefined();
 
       if(nodeKeybases) {
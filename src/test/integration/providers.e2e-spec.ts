@@ -1,6 +1,7 @@
 import { Test } from "@nestjs/testing";
 import { ApiConfigService } from "src/common/api-config/api.config.service";
 import { CachingService } from "src/common/caching/caching.service";
+import { CacheInfo } from "src/common/caching/entities/cache.info";
 import { KeybaseState } from "src/common/keybase/entities/keybase.state";
 import { Provider } from "src/endpoints/providers/entities/provider";
 import { ProviderFilter } from "src/endpoints/providers/entities/provider.filter";
@@ -92,7 +93,7 @@ describe('Provider Service', () => {
     });
 
     it('should be in sync with keybase confirmations', async () => {
-      const providerKeybases:{ [key: string]: KeybaseState } | undefined = await cachingService.getCache('providerKeybases');
+      const providerKeybases:{ [key: string]: KeybaseState } | undefined = await cachingService.getCache(CacheInfo.Keybases.key);
       expect(providerKeybases).toBeDefined();
 
       for (let provider of providers) {
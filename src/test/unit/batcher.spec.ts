@@ -0,0 +1,54 @@
+import { Batcher } from "src/utils/batcher";
+
+describe('Batcher', () => {
+  it('should merge the requests issued within the same tick', async () => {
+    const batches: number[][] = [];
+    const batcher = new Batcher<number, number>(async requests => {
+      batches.push(requests);
+      return requests.map(request => request * 2);
+    });
+
+    const results = await Promise.all([ 1, 2, 3 ].map(async value => await batcher.load(value)));
+
+    expect(results).toStrictEqual([ 2, 4, 6 ]);
+    expect(batches).toStrictEqual([ [ 1, 2, 3 ] ]);
+  });
+
+  it('should split batches larger than the maximum size', async () => {
+    const batches: number[][] = [];
+    const batcher = new Batcher<number, number>(async requests => {
+      batches.push(requests);
+      return requests;
+    }, 2);
+
+    await Promise.all([ 1, 2, 3 ].map(value => batcher.load(value)));
+
+    expect(batches).toStrictEqual([ [ 1, 2 ], [ 3 ] ]);
+  });
+
+  it('should only fail the requests with an error result', async () => {
+    const batcher = new Batcher<number, number>(async requests => requests.map(request => request === 2 ? new Error('failed') : request));
+
+    const results = await Promise.allSettled([ 1, 2 ].map(value => batcher.load(value)));
+
+    expect(results.map(result => result.status)).toStrictEqual([ 'fulfilled', 'rejected' ]);
+  });
+
+  it('should retry the requests of a failed batch one by one', async () => {
+    const batches: number[][] = [];
+    const batcher = new Batcher<number, number>(async requests => {
+      batches.push(requests);
+
+      if (requests.includes(2)) {
+        throw new Error('Request timed out');
+      }
+
+      return requests;
+    });
+
+    const results = await Promise.allSettled([ 1, 2, 3 ].map(value => batcher.load(value)));
+
+    expect(results.map(result => result.status)).toStrictEqual([ 'fulfilled', 'rejected', 'fulfilled' ]);
+    expect(batches).toStrictEqual([ [ 1, 2, 3 ], [ 1 ], [ 2 ], [ 3 ] ]);
+  });
+});
@@ -0,0 +1,30 @@
+import { Bulkhead } from "src/common/network/bulkhead";
+
+describe('Bulkhead', () => {
+  it('should limit the number of concurrent executions', async () => {
+    const bulkhead = new Bulkhead(2);
+    let activeCount = 0;
+    let maxActiveCount = 0;
+
+    const results = await Promise.all([ 1, 2, 3, 4, 5 ].map(value => bulkhead.execute(async () => {
+      activeCount++;
+      maxActiveCount = Math.max(maxActiveCount, activeCount);
+
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      activeCount--;
+      return value;
+    })));
+
+    expect(results).toStrictEqual([ 1, 2, 3, 4, 5 ]);
+    expect(maxActiveCount).toEqual(2);
+  });
+
+  it('should release the slot of failed executions', async () => {
+    const bulkhead = new Bulkhead(1);
+
+    await expect(bulkhead.execute(async () => { throw new Error('Failed'); })).rejects.toThrow('Failed');
+
+    expect(await bulkhead.execute(async () => 'ok')).toEqual('ok');
+  });
+});
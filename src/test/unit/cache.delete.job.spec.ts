@@ -0,0 +1,78 @@
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { CacheDeleteJobService } from "src/common/caching/cache.delete.job.service";
+import { CachingService } from "src/common/caching/caching.service";
+import { CacheDeleteJobStatus } from "src/common/caching/entities/cache.delete.job.status";
+import { LocalCacheService } from "src/common/caching/local.cache.service";
+import { MemoryCacheBackend } from "src/common/caching/memory.cache.backend";
+import { MetricsService } from "src/common/metrics/metrics.service";
+
+describe('Cache Delete Job Service', () => {
+  const apiConfigService = {
+    getCacheNamespace: () => 'mainnet',
+    getCacheTtl: () => 60,
+  } as ApiConfigService;
+
+  const localCacheService = {
+    deleteCacheKey: jest.fn(),
+  } as unknown as LocalCacheService;
+
+  const backend = new MemoryCacheBackend();
+  const cachingService = new CachingService(apiConfigService, localCacheService, backend, {} as MetricsService);
+  const cacheDeleteJobService = new CacheDeleteJobService(cachingService);
+
+  const waitForJob = async (id: string) => {
+    while (cacheDeleteJobService.getJob(id)?.status === CacheDeleteJobStatus.running) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    return cacheDeleteJobService.getJob(id);
+  };
+
+  beforeEach(async () => {
+    await backend.flushDb();
+  });
+
+  it('should delete the matching keys in background and report progress', async () => {
+    for (let index = 0; index < 5; index++) {
+      await backend.set(`mainnet:txCount:${index}`, '1', 60);
+    }
+    await backend.set('mainnet:nodes', '[]', 60);
+
+    const deletedBatches: string[][] = [];
+    const job = cacheDeleteJobService.start('txCount:*', async (keys) => {
+      deletedBatches.push(keys);
+    });
+
+    expect(job.status).toEqual(CacheDeleteJobStatus.running);
+
+    const finishedJob = await waitForJob(job.id);
+
+    expect(finishedJob?.status).toEqual(CacheDeleteJobStatus.completed);
+    expect(finishedJob?.deletedCount).toEqual(5);
+    expect(finishedJob?.finishedAt).toBeDefined();
+    expect(deletedBatches.flat().length).toEqual(5);
+    expect(await backend.get('mainnet:txCount:0')).toBeNull();
+    expect(await backend.get('mainnet:nodes')).toEqual('[]');
+  });
+
+  it('should not start a second job for a pattern that is still being deleted', async () => {
+    const job = cacheDeleteJobService.start('txCount:*');
+
+    expect(cacheDeleteJobService.start('txCount:*').id).toEqual(job.id);
+
+    await waitForJob(job.id);
+  });
+
+  it('should report failed jobs', async () => {
+    await backend.set('mainnet:nodes', '[]', 60);
+
+    const job = cacheDeleteJobService.start('nodes*', async () => {
+      throw new Error('Pubsub unavailable');
+    });
+
+    const finishedJob = await waitForJob(job.id);
+
+    expect(finishedJob?.status).toEqual(CacheDeleteJobStatus.failed);
+    expect(finishedJob?.error).toEqual('Pubsub unavailable');
+  });
+});
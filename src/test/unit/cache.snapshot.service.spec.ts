@@ -0,0 +1,57 @@
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { CacheSnapshotService } from "src/common/caching/cache.snapshot.service";
+import { CachingService } from "src/common/caching/caching.service";
+import { CacheInfo } from "src/common/caching/entities/cache.info";
+import { LocalCacheService } from "src/common/caching/local.cache.service";
+import { MemoryCacheBackend } from "src/common/caching/memory.cache.backend";
+import { MetricsService } from "src/common/metrics/metrics.service";
+import { tmpdir } from "os";
+import { join } from "path";
+const { unlink } = require('fs').promises;
+
+describe('Cache Snapshot Service', () => {
+  const backend = new MemoryCacheBackend();
+
+  const createServices = (namespace: string) => {
+    const apiConfigService = {
+      getNetwork: () => 'mainnet',
+      getCacheNamespace: () => namespace,
+      getCacheTtl: () => 60,
+      getCacheCompressionThresholdInBytes: () => 0,
+    } as ApiConfigService;
+
+    const cachingService = new CachingService(apiConfigService, {} as LocalCacheService, backend, {} as MetricsService);
+
+    return { cachingService, cacheSnapshotService: new CacheSnapshotService(apiConfigService, cachingService) };
+  };
+
+  const path = join(tmpdir(), `cache-snapshot-${process.pid}.json`);
+
+  afterAll(async () => {
+    await unlink(path);
+  });
+
+  it('should import a snapshot taken in the same cache namespace', async () => {
+    const source = createServices('mainnet:v2');
+    await source.cachingService.setCacheRemote(CacheInfo.Nodes.key, [ 'node' ], 60);
+    await source.cacheSnapshotService.exportSnapshot(path);
+    await backend.flushDb();
+
+    const target = createServices('mainnet:v2');
+
+    expect(await target.cacheSnapshotService.importSnapshot(path)).toStrictEqual([ CacheInfo.Nodes.key ]);
+    expect(await target.cachingService.getCacheRemote(CacheInfo.Nodes.key)).toStrictEqual([ 'node' ]);
+  });
+
+  it('should reject a snapshot taken in another cache namespace', async () => {
+    const source = createServices('mainnet:v1');
+    await source.cachingService.setCacheRemote(CacheInfo.Nodes.key, [ 'node' ], 60);
+    await source.cacheSnapshotService.exportSnapshot(path);
+    await backend.flushDb();
+
+    const target = createServices('mainnet:v2');
+
+    await expect(target.cacheSnapshotService.importSnapshot(path)).rejects.toThrow("Cache snapshot was taken in cache namespace 'mainnet:v1' and cannot be imported in 'mainnet:v2'");
+    expect(await target.cachingService.getCacheRemote(CacheInfo.Nodes.key)).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { CachingService } from "src/common/caching/caching.service";
+import { CacheInfo } from "src/common/caching/entities/cache.info";
+import { CachePriority } from "src/common/caching/entities/cache.priority";
+import { LocalCacheService } from "src/common/caching/local.cache.service";
+import { MemoryCacheBackend } from "src/common/caching/memory.cache.backend";
+import { MetricsService } from "src/common/metrics/metrics.service";
+
+describe('Caching Service', () => {
+  const apiConfigService = {
+    getCacheNamespace: () => 'mainnet',
+    getCacheTtl: () => 60,
+    getCacheCompressionThresholdInBytes: () => 0,
+  } as ApiConfigService;
+
+  const localCacheService = {
+    setCacheValue: jest.fn(async (_: string, value: any) => value),
+    getCacheValue: jest.fn(async () => undefined),
+  } as unknown as LocalCacheService;
+
+  const metricsService = {
+    setCacheMiss: jest.fn(),
+    incrementCacheHit: jest.fn(),
+  } as unknown as MetricsService;
+
+  const backend = new MemoryCacheBackend();
+  const cachingService = new CachingService(apiConfigService, localCacheService, backend, metricsService);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await backend.flushDb();
+  });
+
+  it('should keep the priority of a key when it is refreshed through its namespaced name', async () => {
+    await cachingService.setCacheLocal(`mainnet:${CacheInfo.Nodes.key}`, [], 60);
+
+    expect(localCacheService.setCacheValue).toHaveBeenCalledWith(`mainnet:${CacheInfo.Nodes.key}`, [], 60, CachePriority.high);
+  });
+
+  it('should use the normal priority for keys without a configured priority', async () => {
+    await cachingService.setCacheLocal('mainnet:unknown', 'value', 60);
+
+    expect(localCacheService.setCacheValue).toHaveBeenCalledWith('mainnet:unknown', 'value', 60, CachePriority.normal);
+  });
+
+  it('should only register tags for values that are written to redis', async () => {
+    const getTaggedKeys = async () => {
+      let [ members ] = await backend.multi([ [ 'smembers', 'mainnet:tag:address:erd1' ] ]);
+      return members;
+    };
+
+    await cachingService.getOrSetCache('localOnly', async () => 'value', 0, 6, undefined, [ 'address:erd1' ]);
+    expect(await getTaggedKeys()).toStrictEqual([]);
+
+    await cachingService.getOrSetCache('shared', async () => 'value', 60, 6, undefined, [ 'address:erd1' ]);
+    expect(await getTaggedKeys()).toStrictEqual([ 'shared' ]);
+  });
+
+  it('should keep a stale value locally no longer than it lives remotely while refreshing it in background', async () => {
+    await cachingService.setCacheRemote('stale', 'old', 20);
+
+    const refresh = jest.fn(async () => 'new');
+    const value = await cachingService.getOrSetCache('stale', refresh, 60, 30, 10);
+
+    expect(value).toEqual('old');
+    expect(metricsService.incrementCacheHit).toHaveBeenCalledTimes(1);
+    expect(metricsService.incrementCacheHit).toHaveBeenCalledWith('stale', 'stale');
+    expect(localCacheService.setCacheValue).toHaveBeenNthCalledWith(1, 'mainnet:stale', 'old', 20, CachePriority.normal);
+
+    await cachingService.pendingPromises['caching:set:stale'];
+
+    expect(refresh).toHaveBeenCalledTimes(1);  });
+});
@@ -0,0 +1,36 @@
+import { CircuitBreaker } from "src/common/network/circuit.breaker";
+import { CircuitBreakerState } from "src/common/network/entities/circuit.breaker.state";
+
+describe('Circuit Breaker', () => {
+  const fail = async () => { throw new Error('Service unavailable'); };
+
+  it('should open after consecutive failures and fail fast', async () => {
+    const breaker = new CircuitBreaker('test', 2, 60000);
+    const action = jest.fn(fail);
+
+    await expect(breaker.execute(action)).rejects.toThrow('Service unavailable');
+    await expect(breaker.execute(action)).rejects.toThrow('Service unavailable');
+    await expect(breaker.execute(action)).rejects.toThrow(`Circuit 'test' is open`);
+
+    expect(action).toHaveBeenCalledTimes(2);
+    expect(breaker.getState()).toEqual(CircuitBreakerState.open);
+  });
+
+  it('should not count errors which are not failures', async () => {
+    const breaker = new CircuitBreaker('test', 1, 60000);
+
+    await expect(breaker.execute(fail, () => false)).rejects.toThrow('Service unavailable');
+
+    expect(breaker.getState()).toEqual(CircuitBreakerState.closed);
+  });
+
+  it('should close again after a successful trial request', async () => {
+    const states: CircuitBreakerState[] = [];
+    const breaker = new CircuitBreaker('test', 1, 0, state => states.push(state));
+
+    await expect(breaker.execute(fail)).rejects.toThrow('Service unavailable');
+    expect(await breaker.execute(async () => 'ok')).toEqual('ok');
+
+    expect(states).toStrictEqual([ CircuitBreakerState.open, CircuitBreakerState.halfOpen, CircuitBreakerState.closed ]);
+  });
+});
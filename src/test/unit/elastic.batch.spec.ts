@@ -0,0 +1,95 @@
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { ElasticService } from "src/common/elastic/elastic.service";
+import { MetricsService } from "src/common/metrics/metrics.service";
+import { ApiService } from "src/common/network/api.service";
+import { HttpRecordingMode } from "src/common/network/entities/http.recording.mode";
+import { UrlSelectionStrategy } from "src/common/network/entities/url.selection.strategy";
+import { RequestContext } from "src/utils/request.context";
+
+describe('Elastic Batch', () => {
+  const apiConfigService = {
+    getElasticUrls: () => [ 'http://elastic' ],
+    getMexUrls: () => [],
+    getElasticUrlSelectionStrategy: () => UrlSelectionStrategy.roundRobin,
+    getElasticMaxAttempts: () => 1,
+    getHttpRecordingMode: () => HttpRecordingMode.disabled,
+  } as unknown as ApiConfigService;
+
+  const metricsService = {
+    setElasticBatchSize: jest.fn(),
+    setElasticDuration: jest.fn(),
+    setElasticTook: jest.fn(),
+    setElasticNodeDuration: jest.fn(),
+    incrementElasticNodeError: jest.fn(),
+  } as unknown as MetricsService;
+
+  let urls: string[];
+  let failingCollection: string | undefined;
+
+  const apiService = {
+    post: jest.fn(async (url: string, body: any) => {
+      urls.push(url);
+
+      if (url.endsWith('/_msearch')) {
+        let indices = body.trim().split('\n').filter((_: string, index: number) => index % 2 === 0).map((line: string) => JSON.parse(line).index);
+
+        return {
+          data: {
+            responses: indices.map((index: string) => index === failingCollection ?
+              { status: 429, error: { type: 'es_rejected_execution_exception' } } :
+              { hits: { total: { value: index.length } } }),
+          },
+        };
+      }
+
+      return { data: { hits: { total: { value: 1 } } } };
+    }),
+  } as unknown as ApiService;
+
+  const elasticService = new ElasticService(apiConfigService, apiService, metricsService);
+
+  beforeEach(() => {
+    urls = [];
+    failingCollection = undefined;
+  });
+
+  it('should merge the searches of the same request into a single _msearch', async () => {
+    await RequestContext.run(async () => await Promise.all([
+      elasticService.getCount('transactions'),
+      elasticService.getCount('blocks'),
+    ]));
+
+    expect(urls).toStrictEqual([ 'http://elastic/_msearch' ]);
+  });
+
+  it('should not merge the searches of different requests', async () => {
+    await Promise.all([
+      RequestContext.run(async () => await elasticService.getCount('transactions')),
+      RequestContext.run(async () => await elasticService.getCount('blocks')),
+    ]);
+
+    expect(urls.sort()).toStrictEqual([ 'http://elastic/blocks/_search', 'http://elastic/transactions/_search' ]);
+  });
+
+  it('should not merge searches issued outside of a request', async () => {
+    await Promise.all([
+      elasticService.getCount('transactions'),
+      elasticService.getCount('blocks'),
+    ]);
+
+    expect(urls.length).toEqual(2);
+  });
+
+  it('should keep the status of a failed search within a _msearch', async () => {
+    failingCollection = 'blocks';
+
+    const [ transactions, blocks ] = await RequestContext.run(async () => await Promise.allSettled([
+      elasticService.getCount('transactions'),
+      elasticService.getCount('blocks'),
+    ]));
+
+    expect(transactions).toStrictEqual({ status: 'fulfilled', value: 'transactions'.length });
+    expect(blocks.status).toEqual('rejected');
+    expect((blocks as PromiseRejectedResult).reason.status).toEqual(429);
+  });
+});
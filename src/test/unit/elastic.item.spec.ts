@@ -0,0 +1,77 @@
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { ElasticService } from "src/common/elastic/elastic.service";
+import { MetricsService } from "src/common/metrics/metrics.service";
+import { ApiService } from "src/common/network/api.service";
+import { HttpRecordingMode } from "src/common/network/entities/http.recording.mode";
+import { UrlSelectionStrategy } from "src/common/network/entities/url.selection.strategy";
+
+describe('Elastic Item', () => {
+  const apiConfigService = {
+    getElasticUrls: () => [ 'http://elastic-a', 'http://elastic-b' ],
+    getMexUrls: () => [],
+    getElasticUrlSelectionStrategy: () => UrlSelectionStrategy.roundRobin,
+    getElasticMaxAttempts: () => 2,
+    getHttpRecordingMode: () => HttpRecordingMode.disabled,
+  } as unknown as ApiConfigService;
+
+  const metricsService = {
+    setElasticDuration: jest.fn(),
+    setElasticNodeDuration: jest.fn(),
+    incrementElasticNodeError: jest.fn(),
+  } as unknown as MetricsService;
+
+  let urls: string[];
+  let failFirstAttempt: boolean;
+
+  const apiService = {
+    get: jest.fn(async (url: string, _: any, errorHandler: (error: any) => Promise<boolean>) => {
+      urls.push(url);
+
+      if (failFirstAttempt) {
+        failFirstAttempt = false;
+        throw { status: 503 };
+      }
+
+      if (url.includes('missing')) {
+        let error = { response: { status: 404, data: { found: false } } };
+        if (await errorHandler(error)) {
+          return undefined;
+        }
+
+        throw error;
+      }
+
+      return { data: { _id: 'abc', found: true, _source: { nonce: 1 } } };
+    }),
+  } as unknown as ApiService;
+
+  const elasticService = new ElasticService(apiConfigService, apiService, metricsService);
+
+  beforeEach(() => {
+    urls = [];
+    failFirstAttempt = false;
+  });
+
+  it('should get the document by id', async () => {
+    expect(await elasticService.getItem('transactions', 'txHash', 'abc')).toStrictEqual({ txHash: 'abc', nonce: 1 });
+    expect(urls.map(url => new URL(url).pathname)).toStrictEqual([ '/transactions/_doc/abc' ]);
+  });
+
+  it('should only fetch the included source fields', async () => {
+    await elasticService.getItem('transactions', 'txHash', 'abc', [ 'nonce', 'sender' ]);
+    await elasticService.getItem('transactions', 'txHash', 'abc', []);
+
+    expect(urls.map(url => new URL(url).search)).toStrictEqual([ '?_source_includes=nonce,sender', '?_source=false' ]);
+  });
+
+  it('should return undefined for missing documents', async () => {
+    expect(await elasticService.getItem('transactions', 'txHash', 'missing')).toBeUndefined();
+  });
+
+  it('should retry the get on another node', async () => {
+    failFirstAttempt = true;
+
+    expect(await elasticService.getItem('transactions', 'txHash', 'abc')).toStrictEqual({ txHash: 'abc', nonce: 1 });
+    expect(new Set(urls.map(url => new URL(url).host)).size).toEqual(2);
+  });
+});
@@ -0,0 +1,90 @@
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { ElasticService } from "src/common/elastic/elastic.service";
+import { ElasticQuery } from "src/common/elastic/entities/elastic.query";
+import { ElasticSortOrder } from "src/common/elastic/entities/elastic.sort.order";
+import { ElasticSource } from "src/common/elastic/entities/elastic.source";
+import { MetricsService } from "src/common/metrics/metrics.service";
+import { ApiService } from "src/common/network/api.service";
+import { HttpRecordingMode } from "src/common/network/entities/http.recording.mode";
+import { UrlSelectionStrategy } from "src/common/network/entities/url.selection.strategy";
+
+describe('Elastic Iterate', () => {
+  const apiConfigService = {
+    getElasticUrls: () => [ 'http://elastic' ],
+    getMexUrls: () => [],
+    getElasticUrlSelectionStrategy: () => UrlSelectionStrategy.roundRobin,
+    getElasticMaxAttempts: () => 1,
+    getHttpRecordingMode: () => HttpRecordingMode.disabled,
+  } as unknown as ApiConfigService;
+
+  const metricsService = {
+    setElasticNodeDuration: jest.fn(),
+    incrementElasticNodeError: jest.fn(),
+  } as unknown as MetricsService;
+
+  const documents = [ 'a', 'b', 'c', 'd', 'e' ].map((hash, index) => ({ _id: hash, _source: { nonce: index }, sort: [ index, hash ] }));
+
+  let searchBodies: any[];
+  let closedIds: string[];
+
+  const apiService = {
+    post: jest.fn(async (url: string, body: any) => {
+      if (url.includes('/_pit')) {
+        return { data: { id: 'pit-0' } };
+      }
+
+      searchBodies.push(body);
+
+      let from = body.search_after ? body.search_after[0] + 1 : 0;
+      let hits = documents.slice(from, from + body.size);
+
+      return { data: { pit_id: `pit-${searchBodies.length}`, hits: { hits } } };
+    }),
+    delete: jest.fn(async (_: string, body: any) => {
+      closedIds.push(body.id);
+    }),
+  } as unknown as ApiService;
+
+  const elasticService = new ElasticService(apiConfigService, apiService, metricsService);
+
+  const createQuery = () => ElasticQuery.create()
+    .withSort([ { name: 'nonce', order: ElasticSortOrder.ascending } ]);
+
+  beforeEach(() => {
+    searchBodies = [];
+    closedIds = [];
+  });
+
+  it('should walk through all the pages within a point in time', async () => {
+    const hashes: string[] = [];
+
+    await elasticService.iterate('transactions', 'txHash', createQuery(), async (items) => {
+      hashes.push(...items.map(item => item.txHash));
+      return true;
+    }, 2);
+
+    expect(hashes).toStrictEqual([ 'a', 'b', 'c', 'd', 'e' ]);
+    expect(searchBodies.map(body => body.pit.id)).toStrictEqual([ 'pit-0', 'pit-1', 'pit-2' ]);
+    expect(closedIds).toStrictEqual([ 'pit-3' ]);
+  });
+
+  it('should close the point in time when the handler stops the iteration', async () => {
+    await elasticService.iterate('transactions', 'txHash', createQuery(), async () => false, 2);
+
+    expect(searchBodies.length).toEqual(1);
+    expect(closedIds).toStrictEqual([ 'pit-1' ]);
+  });
+
+  it('should close the point in time when the handler fails', async () => {
+    await expect(elasticService.iterate('transactions', 'txHash', createQuery(), async () => {
+      throw new Error('Client went away');
+    }, 2)).rejects.toThrow('Client went away');
+
+    expect(closedIds).toStrictEqual([ 'pit-1' ]);
+  });
+
+  it('should fail iterations of a source without urls', async () => {
+    await expect(elasticService.iterate('snapshot-week-1', 'snapshot', createQuery(), async () => true, 2, ElasticSource.mex))
+      .rejects.toThrow("No urls configured for elastic source 'mex'");
+  });
+});
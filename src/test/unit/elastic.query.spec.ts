@@ -4,6 +4,10 @@ import { QueryConditionOptions } from "src/common/elastic/entities/query.conditi
 import { QueryType } from "src/common/elastic/entities/query.type";
 import { RangeQuery } from "src/common/elastic/entities/range.query";
 import { TermsQuery } from "src/common/elastic/entities/terms.query";
+import { CursorUtils } from "src/utils/cursor.utils";
+import { AggregationType } from "src/common/elastic/entities/aggregation.type";
+import { DateHistogramInterval } from "src/common/elastic/entities/date.histogram.interval";
+import { AbstractAggregation } from "src/common/elastic/entities/abstract.aggregation";
 
 describe('Elastic Query', () => {
   describe('Create Elastic Query', () => {
@@ -57,6 +61,18 @@ describe('Elastic Query', () => {
   });
 
 
+  describe('Add cursor pagination to elastic query', () => {
+    const elasticQuery: ElasticQuery = ElasticQuery.create();
+
+    elasticQuery.withPagination({ from: 50, size: 25, cursor: CursorUtils.encode([ 1640995200, 'abc' ]) });
+
+    expect(elasticQuery.toJson().from).toEqual(0);
+    expect(elasticQuery.toJson().size).toEqual(25);
+    expect(elasticQuery.toJson().search_after).toStrictEqual([ 1640995200, 'abc' ]);
+
+    expect(CursorUtils.decode('invalid')).toBeUndefined();
+  });
+
   describe('Add sort to elastic query', () => {
     const elasticQuery: ElasticQuery = ElasticQuery.create();
 
@@ -99,4 +115,149 @@ describe('Elastic Query', () => {
    
     expect(elasticQuery.toJson().query.terms).toBeDefined();
   });
-});
\ No newline at end of file
+
+  describe('Build query primitives', () => {
+    it('Should build term level queries', () => {
+      expect(QueryType.Prefix('token', 'MEX').getQuery()).toStrictEqual({ prefix: { token: { value: 'MEX' } } });
+      expect(QueryType.Term('status', 'success').getQuery()).toStrictEqual({ term: { status: 'success' } });
+      expect(QueryType.Terms('_id', ['a', 'b']).getQuery()).toStrictEqual({ terms: { _id: ['a', 'b'] } });
+      expect(QueryType.Fuzzy('name', 'punks').getQuery()).toStrictEqual({ fuzzy: { name: { value: 'punks', fuzziness: 'AUTO' } } });
+    });
+
+    it('Should build a multi match query', () => {
+      expect(QueryType.MultiMatch('test', ['name', 'ticker']).getQuery()).toMatchObject({ multi_match: { query: 'test', fields: ['name', 'ticker'] } });
+    });
+
+    it('Should build nested bool queries', () => {
+      const elasticQuery = ElasticQuery.create()
+        .withCondition(QueryConditionOptions.must, [
+          QueryType.Bool({
+            should: [
+              QueryType.Match('sender', 'alice'),
+              QueryType.Bool({ must: [QueryType.Match('receiver', 'alice'), QueryType.Term('status', 'success')] }),
+            ],
+          }),
+        ]);
+
+      expect(elasticQuery.toJson().query.bool.must).toStrictEqual([{
+        bool: {
+          should: [
+            { match: { sender: 'alice' } },
+            { bool: { must: [{ match: { receiver: 'alice' } }, { term: { status: 'success' } }] } },
+          ],
+          minimum_should_match: 1,
+        },
+      }]);
+    });
+
+    it('Should build numeric ranges out of string amounts', () => {
+      const elasticQuery = ElasticQuery.create()
+        .withFilter([QueryType.NumericRange('balanceNum', { gte: '1.5', lt: 100 })]);
+
+      expect(elasticQuery.toJson().query.bool.filter).toStrictEqual([{ range: { balanceNum: { gte: 1.5, lt: 100 } } }]);
+    });
+  });
+
+  describe('Add source includes to elastic query', () => {
+    it('Should fetch the whole document by default', () => {
+      expect(ElasticQuery.create().toJson()._source).toBeUndefined();
+    });
+
+    it('Should only fetch the included fields', () => {
+      expect(ElasticQuery.create().withIncludes([ 'sender' ]).toJson()._source).toStrictEqual([ 'sender' ]);
+    });
+
+    it('Should not fetch any source for empty includes', () => {
+      expect(ElasticQuery.create().withIncludes([]).toJson()._source).toStrictEqual(false);
+    });
+  });
+
+  describe('Add aggregations to elastic query', () => {
+    it('Should not add aggregations by default', () => {
+      expect(ElasticQuery.create().toJson().aggs).toBeUndefined();
+    });
+
+    it('Should build metric aggregations', () => {
+      const elasticQuery = ElasticQuery.create()
+        .withAggregations([
+          AggregationType.Sum('totalFee', 'fee'),
+          AggregationType.Avg('averageGasUsed', 'gasUsed'),
+          AggregationType.Cardinality('senders', 'sender'),
+        ]);
+
+      expect(elasticQuery.toJson().aggs).toStrictEqual({
+        totalFee: { sum: { field: 'fee' } },
+        averageGasUsed: { avg: { field: 'gasUsed' } },
+        senders: { cardinality: { field: 'sender' } },
+      });
+    });
+
+    it('Should build bucket aggregations with sub aggregations', () => {
+      const elasticQuery = ElasticQuery.create()
+        .withAggregations([
+          AggregationType.DateHistogram('transactionsPerDay', 'timestamp', DateHistogramInterval.day, [
+            AggregationType.Terms('topSenders', 'sender', 5),
+          ]),
+        ]);
+
+      expect(elasticQuery.toJson().aggs).toStrictEqual({
+        transactionsPerDay: {
+          date_histogram: { field: 'timestamp', calendar_interval: 'day', min_doc_count: 0 },
+          aggs: {
+            topSenders: { terms: { field: 'sender', size: 5 } },
+          },
+        },
+      });
+    });
+
+    it('Should build nested aggregations', () => {
+      const elasticQuery = ElasticQuery.create()
+        .withAggregations([
+          AggregationType.Nested('data', 'data', [
+            AggregationType.Terms('tags', 'data.tags', 100),
+          ]),
+        ]);
+
+      expect(elasticQuery.toJson().aggs).toStrictEqual({
+        data: {
+          nested: { path: 'data' },
+          aggs: {
+            tags: { terms: { field: 'data.tags', size: 100 } },
+          },
+        },
+      });
+    });
+
+    it('Should parse typed results', () => {
+      const aggregations = [
+        AggregationType.Nested('data', 'data', [
+          AggregationType.Terms('tags', 'data.tags', 100, [
+            AggregationType.Cardinality('creators', 'data.creator'),
+          ]),
+        ]),
+        AggregationType.Sum('totalFee', 'fee'),
+      ];
+
+      const results = AbstractAggregation.getResults(aggregations, {
+        data: {
+          doc_count: 3,
+          tags: {
+            buckets: [
+              { key: 'art', doc_count: 2, creators: { value: 1 } },
+              { key: 'music', doc_count: 1, creators: { value: 1 } },
+            ],
+          },
+        },
+        totalFee: { value: 150 },
+      });
+
+      expect(results.totalFee.value).toEqual(150);
+      expect(results.data.count).toEqual(3);
+
+      const buckets = results.data.aggregations.tags.buckets;
+      expect(buckets.map(bucket => bucket.key)).toStrictEqual([ 'art', 'music' ]);
+      expect(buckets[0].count).toEqual(2);
+      expect(buckets[0].aggregations.creators.value).toEqual(1);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { HttpException, HttpStatus } from "@nestjs/common";
+import { EventEmitter } from "events";
+import { Response } from "express";
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { ExportFormat } from "src/common/export/entities/export.format";
+import { ExportService } from "src/common/export/export.service";
+
+class FakeResponse extends EventEmitter {
+  chunks: string[] = [];
+  headers: { [ name: string ]: string } = {};
+  isEnded: boolean = false;
+  isDestroyed: boolean = false;
+
+  status() {
+    return this;
+  }
+
+  setHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  end() {
+    this.isEnded = true;
+  }
+
+  destroy() {
+    this.isDestroyed = true;
+  }
+}
+
+interface Holder {
+  address: string;
+  balance: string;
+}
+
+describe('Export Service', () => {
+  let maxConcurrentRequests = 2;
+
+  const apiConfigService = {
+    getExportsMaxConcurrentRequests: () => maxConcurrentRequests,
+  } as ApiConfigService;
+
+  const exportService = new ExportService(apiConfigService);
+
+  beforeEach(() => {
+    maxConcurrentRequests = 2;
+  });
+
+  it('should escape csv values containing separators, quotes and line breaks', async () => {
+    const response = new FakeResponse();
+
+    await exportService.export<Holder>(response as unknown as Response, 'holders', ExportFormat.csv, [ 'address', 'balance' ], async (handler) => {
+      await handler([
+        { address: 'erd1', balance: '10' },
+        { address: 'a,b', balance: 'say "hi"\nbye' },
+      ]);
+    });
+
+    expect(response.headers['Content-Type']).toEqual('text/csv');
+    expect(response.chunks.join('')).toEqual('address,balance\nerd1,10\n"a,b","say ""hi""\nbye"\n');
+    expect(response.isEnded).toBeTruthy();
+  });
+
+  it('should write one json document per line', async () => {
+    const response = new FakeResponse();
+
+    await exportService.export<Holder>(response as unknown as Response, 'holders', ExportFormat.ndjson, [ 'address', 'balance' ], async (handler) => {
+      await handler([ { address: 'erd1', balance: '10' } ]);
+      await handler([ { address: 'erd2', balance: '5' } ]);
+    });
+
+    expect(response.chunks.join('')).toEqual('{"address":"erd1","balance":"10"}\n{"address":"erd2","balance":"5"}\n');
+  });
+
+  it('should reject exports above the concurrency limit with 429', async () => {
+    maxConcurrentRequests = 1;
+
+    let release: () => void = () => {};
+    const pending = new Promise<void>(resolve => release = resolve);
+
+    const first = exportService.export<Holder>(new FakeResponse() as unknown as Response, 'holders', ExportFormat.ndjson, [], async () => await pending);
+
+    let error: any;
+    try {
+      await exportService.export<Holder>(new FakeResponse() as unknown as Response, 'holders', ExportFormat.ndjson, [], async () => {});
+    } catch (exception) {
+      error = exception;
+    }
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toEqual(HttpStatus.TOO_MANY_REQUESTS);
+
+    release();
+    await first;
+
+    // the slot of a finished export is freed again
+    await exportService.export<Holder>(new FakeResponse() as unknown as Response, 'holders', ExportFormat.ndjson, [], async () => {});
+  });
+
+  it('should stop iterating once the client disconnects', async () => {
+    const response = new FakeResponse();
+    const results: boolean[] = [];
+
+    await exportService.export<Holder>(response as unknown as Response, 'holders', ExportFormat.ndjson, [ 'address', 'balance' ], async (handler) => {
+      results.push(await handler([ { address: 'erd1', balance: '10' } ]));
+
+      response.emit('close');
+
+      results.push(await handler([ { address: 'erd2', balance: '5' } ]));
+    });
+
+    expect(results).toStrictEqual([ true, false ]);
+    expect(response.chunks).toStrictEqual([ '{"address":"erd1","balance":"10"}\n' ]);
+  });
+
+  it('should abort the response when the iteration fails', async () => {
+    const response = new FakeResponse();
+
+    await exportService.export<Holder>(response as unknown as Response, 'holders', ExportFormat.ndjson, [], async () => {
+      throw new Error('Elastic unavailable');
+    });
+
+    expect(response.isDestroyed).toBeTruthy();
+    expect(response.isEnded).toBeFalsy();
+  });
+});
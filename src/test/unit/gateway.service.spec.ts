@@ -0,0 +1,62 @@
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { GatewayComponentRequest } from "src/common/gateway/entities/gateway.component.request";
+import { GatewayService } from "src/common/gateway/gateway.service";
+import { MetricsService } from "src/common/metrics/metrics.service";
+import { ApiService } from "src/common/network/api.service";
+import { UrlSelectionStrategy } from "src/common/network/entities/url.selection.strategy";
+
+describe('Gateway Service', () => {
+  const apiConfigService = {
+    getGatewayUrls: () => [ 'http://gateway-a', 'http://gateway-b' ],
+    getGatewayUrlSelectionStrategy: () => UrlSelectionStrategy.roundRobin,
+    getGatewayMaxAttempts: () => 2,
+    getGatewayRetryDelayInMilliseconds: () => 0,
+    getGatewayTimeoutInMilliseconds: () => 1000,
+    getGatewayCircuitBreakerFailureThreshold: () => 10,
+    getGatewayCircuitBreakerResetTimeoutInMilliseconds: () => 1000,
+  } as unknown as ApiConfigService;
+
+  const metricsService = {
+    setGatewayDuration: jest.fn(),
+    setGatewayCircuitState: jest.fn(),
+  } as unknown as MetricsService;
+
+  let urls: string[];
+
+  const apiService = {
+    get: jest.fn(async (url: string) => {
+      urls.push(url);
+      throw { status: 503, message: 'Service unavailable' };
+    }),
+    post: jest.fn(async (url: string) => {
+      urls.push(url);
+      throw { status: 503, message: 'Service unavailable' };
+    }),
+  } as unknown as ApiService;
+
+  const gatewayService = new GatewayService(apiConfigService, apiService, metricsService);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    urls = [];
+  });
+
+  it('should retry idempotent requests on another gateway', async () => {
+    await expect(gatewayService.get('network/config', GatewayComponentRequest.networkConfig)).rejects.toMatchObject({ status: 503 });
+
+    expect(urls.map(url => new URL(url).host).sort()).toStrictEqual([ 'gateway-a', 'gateway-b' ]);
+  });
+
+  it('should neither retry nor fail over transactions that are sent', async () => {
+    await expect(gatewayService.create('transaction/send', GatewayComponentRequest.sendTransaction, {})).rejects.toMatchObject({ status: 503 });
+
+    expect(urls.length).toEqual(1);
+    expect(urls[0]).toMatch(/\/transaction\/send$/);
+  });
+
+  it('should record the duration of a request once', async () => {
+    await expect(gatewayService.create('transaction/send', GatewayComponentRequest.sendTransaction, {})).rejects.toBeDefined();
+
+    expect(metricsService.setGatewayDuration).toHaveBeenCalledTimes(1);
+  });
+});
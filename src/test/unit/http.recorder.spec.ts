@@ -0,0 +1,43 @@
+import { HttpRecording } from "src/common/network/entities/http.recording";
+import { HttpRecorder } from "src/common/network/http.recorder";
+
+const { mkdtempSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+
+describe('Http Recorder', () => {
+  let path: string;
+  let recorder: HttpRecorder;
+
+  beforeAll(() => {
+    path = `${mkdtempSync(`${tmpdir()}/recordings-`)}/`;
+    recorder = new HttpRecorder(path);
+  });
+
+  afterAll(() => {
+    rmSync(path, { recursive: true, force: true });
+  });
+
+  it('should key recordings by method, url and body', () => {
+    const url = 'https://gateway.elrond.com/vm-values/query';
+    const key = recorder.getKey('POST', url, { funcName: 'getTotalStaked' });
+
+    expect(key.startsWith('post_gateway.elrond.com_')).toBe(true);
+    expect(recorder.getKey('POST', url, { funcName: 'getTotalStaked' })).toEqual(key);
+    expect(recorder.getKey('POST', url, { funcName: 'getUserStake' })).not.toEqual(key);
+    expect(recorder.getKey('GET', url, { funcName: 'getTotalStaked' })).not.toEqual(key);
+    expect(recorder.getKey('POST', `${url}?x=1`, { funcName: 'getTotalStaked' })).not.toEqual(key);
+  });
+
+  it('should read back written recordings', async () => {
+    const recording = new HttpRecording();
+    recording.method = 'GET';
+    recording.url = 'https://gateway.elrond.com/network/config';
+    recording.status = 200;
+    recording.data = { data: { config: { erd_chain_id: '1' } }, code: 'successful' };
+
+    await recorder.write(recording);
+
+    expect(await recorder.read('GET', recording.url, undefined)).toStrictEqual(JSON.parse(JSON.stringify(recording)));
+    expect(await recorder.read('GET', 'https://gateway.elrond.com/network/status/4294967295', undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+import { ElasticQuery } from "src/common/elastic/entities/elastic.query";
+import { ElasticSortOrder } from "src/common/elastic/entities/elastic.sort.order";
+import { QueryConditionOptions } from "src/common/elastic/entities/query.condition.options";
+import { QueryOperator } from "src/common/elastic/entities/query.operator";
+import { QueryType } from "src/common/elastic/entities/query.type";
+import { TermsQuery } from "src/common/elastic/entities/terms.query";
+import InMemoryElastic from "src/test/integration/in-memory-elastic";
+
+describe('In Memory Elastic', () => {
+  const elastic = new InMemoryElastic();
+  elastic.load('tokens', [
+    { _id: 'APES-efa5e3-01', identifier: 'APES-efa5e3-01', token: 'APES-efa5e3', type: 'NonFungibleESDT', timestamp: 3, data: { name: 'Ape #1', tags: [ 'art' ] } },
+    { _id: 'APES-efa5e3-02', identifier: 'APES-efa5e3-02', token: 'APES-efa5e3', type: 'NonFungibleESDT', timestamp: 2, data: { name: 'Ape #2', tags: [ 'music' ] } },
+    { _id: 'LKLP-03a2fa-4cc9', identifier: 'LKLP-03a2fa-4cc9', token: 'LKLP-03a2fa', type: 'MetaESDT', timestamp: 1 },
+    { _id: 'LKLP-03a2fa', token: 'LKLP-03a2fa', type: 'MetaESDT', name: 'LockedLP', timestamp: 0 },
+  ]);
+
+  const getIds = (query: ElasticQuery) => elastic.search('tokens', query.toJson()).hits.hits.map((hit: any) => hit._id);
+
+  it('should evaluate bool queries', () => {
+    const query = ElasticQuery.create()
+      .withCondition(QueryConditionOptions.must, [ QueryType.Exists('identifier') ])
+      .withCondition(QueryConditionOptions.mustNot, [ QueryType.Match('type', 'MetaESDT') ])
+      .withCondition(QueryConditionOptions.should, [ QueryType.Match('identifier', 'APES-efa5e3-02', QueryOperator.AND), QueryType.Wildcard('token', '*ZZZ*') ]);
+
+    expect(getIds(query)).toStrictEqual([ 'APES-efa5e3-02' ]);
+  });
+
+  it('should match the analyzed terms of text values', () => {
+    const match = (value: string, operator?: QueryOperator) => getIds(ElasticQuery.create().withCondition(QueryConditionOptions.must, [ QueryType.Match('identifier', value, operator) ]));
+
+    expect(match('apes')).toStrictEqual([ 'APES-efa5e3-01', 'APES-efa5e3-02' ]);
+    expect(match('APES-efa5e3-01')).toStrictEqual([ 'APES-efa5e3-01', 'APES-efa5e3-02' ]);
+    expect(match('APES-efa5e3-01', QueryOperator.AND)).toStrictEqual([ 'APES-efa5e3-01' ]);
+    expect(match('APES')).not.toContain('LKLP-03a2fa-4cc9');
+  });
+
+  it('should evaluate term level, range and nested queries', () => {
+    expect(getIds(ElasticQuery.create().withCondition(QueryConditionOptions.must, [ QueryType.Prefix('token', 'LKLP') ]))).toStrictEqual([ 'LKLP-03a2fa-4cc9', 'LKLP-03a2fa' ]);
+    expect(getIds(ElasticQuery.create().withFilter([ QueryType.Range('timestamp', 2, 1) ]))).toStrictEqual([ 'APES-efa5e3-02', 'LKLP-03a2fa-4cc9' ]);
+    expect(getIds(ElasticQuery.create().withCondition(QueryConditionOptions.must, [ QueryType.Nested('data', { 'data.tags': 'music' }) ]))).toStrictEqual([ 'APES-efa5e3-02' ]);
+    expect(getIds(ElasticQuery.create().withTerms(new TermsQuery('identifier', [ 'APES-efa5e3-01', 'invalid' ])))).toStrictEqual([ 'APES-efa5e3-01' ]);
+    expect(getIds(ElasticQuery.create().withCondition(QueryConditionOptions.must, [ QueryType.Fuzzy('name', 'LockedLB') ]))).toStrictEqual([ 'LKLP-03a2fa' ]);
+    expect(getIds(ElasticQuery.create().withCondition(QueryConditionOptions.must, [ QueryType.MultiMatch('lockedlp', [ 'identifier', 'name' ]) ]))).toStrictEqual([ 'LKLP-03a2fa' ]);
+    expect(getIds(ElasticQuery.create().withFilter([ QueryType.NumericRange('timestamp', { gt: '1', lte: '3' }) ]))).toStrictEqual([ 'APES-efa5e3-01', 'APES-efa5e3-02' ]);
+  });
+
+  it('should sort, paginate and continue after a cursor', () => {
+    const sort = [ { name: 'timestamp', order: ElasticSortOrder.ascending }, { name: '_id', order: ElasticSortOrder.ascending } ];
+
+    const firstPage = elastic.search('tokens', ElasticQuery.create().withSort(sort).withPagination({ from: 0, size: 2 }).toJson());
+    expect(firstPage.hits.total.value).toEqual(4);
+    expect(firstPage.hits.hits.map((hit: any) => hit._id)).toStrictEqual([ 'LKLP-03a2fa', 'LKLP-03a2fa-4cc9' ]);
+
+    const body = { ...ElasticQuery.create().withSort(sort).withPagination({ from: 0, size: 2 }).toJson(), search_after: firstPage.hits.hits[1].sort };
+    const secondPage = elastic.search('tokens', body);
+    expect(secondPage.hits.hits.map((hit: any) => hit._id)).toStrictEqual([ 'APES-efa5e3-02', 'APES-efa5e3-01' ]);
+  });
+
+  it('should only return the included source fields', () => {
+    const result = elastic.search('tokens', ElasticQuery.create().withPagination({ from: 0, size: 1 }).withIncludes([ 'identifier', 'data.name' ]).toJson());
+
+    expect(result.hits.hits[0]._source).toStrictEqual({ identifier: 'APES-efa5e3-01', data: { name: 'Ape #1' } });
+  });
+
+  it('should get documents by id', async () => {
+    expect(await elastic.getDocument('tokens', 'LKLP-03a2fa', [ 'name' ])).toStrictEqual({ _index: 'tokens', _id: 'LKLP-03a2fa', found: true, _source: { name: 'LockedLP' } });
+    expect((await elastic.getDocument('tokens', 'LKLP-03a2fa', []))._source).toBeUndefined();
+    expect(await elastic.getDocument('tokens', 'MISSING-000000')).toBeUndefined();
+  });
+});
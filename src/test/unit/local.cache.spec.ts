@@ -0,0 +1,101 @@
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { CacheInfo } from "src/common/caching/entities/cache.info";
+import { CachePriority } from "src/common/caching/entities/cache.priority";
+import { LocalCacheService } from "src/common/caching/local.cache.service";
+import { MetricsService } from "src/common/metrics/metrics.service";
+
+describe('Local Cache Service', () => {
+  let maxEntries = 3;
+  let maxSizeInBytes = 1000;
+
+  const apiConfigService = {
+    getLocalCacheMaxEntries: () => maxEntries,
+    getLocalCacheMaxSizeInBytes: () => maxSizeInBytes,
+  } as ApiConfigService;
+
+  const metricsService = {
+    setLocalCacheEntries: jest.fn(),
+    setLocalCacheSize: jest.fn(),
+    incrementLocalCacheEvictions: jest.fn(),
+  } as unknown as MetricsService;
+
+  const localCacheService = new LocalCacheService(apiConfigService, metricsService);
+
+  beforeEach(() => {
+    for (let key of ['a', 'b', 'c', 'd', 'e', 'big']) {
+      localCacheService.deleteCacheKey(key);
+    }
+
+    maxEntries = 3;
+    maxSizeInBytes = 1000;
+  });
+
+  it('should evict the least recently used entry when the entries limit is reached', () => {
+    localCacheService.setCacheValue('a', 'a', 60);
+    localCacheService.setCacheValue('b', 'b', 60);
+    localCacheService.setCacheValue('c', 'c', 60);
+
+    expect(localCacheService.getCacheValue('a')).toEqual('a');
+
+    localCacheService.setCacheValue('d', 'd', 60);
+
+    expect(localCacheService.getCacheValue('b')).toBeUndefined();
+    expect(localCacheService.getCacheValue('a')).toEqual('a');
+    expect(localCacheService.getCacheValue('c')).toEqual('c');
+    expect(localCacheService.getCacheValue('d')).toEqual('d');
+    expect(localCacheService.getEntriesCount()).toEqual(3);
+    expect(metricsService.incrementLocalCacheEvictions).toHaveBeenCalledWith(CachePriority.normal);
+  });
+
+  it('should evict lower priority entries first', () => {
+    localCacheService.setCacheValue('a', 'a', 60, CachePriority.high);
+    localCacheService.setCacheValue('b', 'b', 60, CachePriority.low);
+    localCacheService.setCacheValue('c', 'c', 60, CachePriority.normal);
+    localCacheService.setCacheValue('d', 'd', 60, CachePriority.normal);
+
+    expect(localCacheService.getCacheValue('a')).toEqual('a');
+    expect(localCacheService.getCacheValue('b')).toBeUndefined();
+
+    localCacheService.setCacheValue('e', 'e', 60, CachePriority.normal);
+
+    expect(localCacheService.getCacheValue('a')).toEqual('a');
+    expect(localCacheService.getCacheValue('c')).toBeUndefined();
+  });
+
+  it('should evict entries when the size limit is reached', () => {
+    maxSizeInBytes = 40;
+
+    localCacheService.setCacheValue('a', 'x'.repeat(20), 60);
+    localCacheService.setCacheValue('b', 'x'.repeat(20), 60);
+
+    expect(localCacheService.getCacheValue('a')).toBeUndefined();
+    expect(localCacheService.getCacheValue('b')).toBeDefined();
+    expect(localCacheService.getTotalSize()).toEqual(22);
+  });
+
+  it('should not store values larger than the size limit', () => {
+    maxSizeInBytes = 10;
+
+    localCacheService.setCacheValue('big', 'x'.repeat(20), 60);
+
+    expect(localCacheService.getCacheValue('big')).toBeUndefined();
+    expect(localCacheService.getTotalSize()).toEqual(0);
+  });
+
+  it('should keep track of the total size when overwriting and deleting keys', () => {
+    localCacheService.setCacheValue('a', 'xx', 60);
+    localCacheService.setCacheValue('a', 'xxxx', 60);
+
+    expect(localCacheService.getTotalSize()).toEqual(6);
+
+    localCacheService.deleteCacheKey('a');
+
+    expect(localCacheService.getTotalSize()).toEqual(0);
+  });
+
+  it('should resolve the priority of known cache keys', () => {
+    expect(CacheInfo.getPriority(CacheInfo.Nodes.key)).toEqual(CachePriority.high);
+    expect(CacheInfo.getPriority(CacheInfo.AllEsdtTokens.key)).toEqual(CachePriority.high);
+    expect(CacheInfo.getPriority(CacheInfo.TxCount('erd1').key)).toEqual(CachePriority.normal);
+  });
+});
@@ -0,0 +1,29 @@
+import { lastValueFrom } from "rxjs";
+import { CachingService } from "src/common/caching/caching.service";
+import { LocalClientProxy } from "src/common/microservice/local.client.proxy";
+
+describe('Local Client Proxy', () => {
+  const cachingService = {
+    deleteInCacheLocal: jest.fn(),
+    refreshCacheLocal: jest.fn(),
+  } as unknown as CachingService;
+
+  const clientProxy = new LocalClientProxy(cachingService);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should delete the emitted keys from the local cache', async () => {
+    await lastValueFrom(clientProxy.emit('deleteCacheKeys', [ 'mainnet:nodes', 'mainnet:providers' ]), { defaultValue: undefined });
+
+    expect(cachingService.deleteInCacheLocal).toHaveBeenCalledWith('mainnet:nodes');
+    expect(cachingService.deleteInCacheLocal).toHaveBeenCalledWith('mainnet:providers');
+  });
+
+  it('should refresh the emitted key in the local cache', async () => {
+    await lastValueFrom(clientProxy.emit('refreshCacheKey', { key: 'mainnet:nodes', ttl: 60 }), { defaultValue: undefined });
+
+    expect(cachingService.refreshCacheLocal).toHaveBeenCalledWith('mainnet:nodes', 60);
+  });
+});
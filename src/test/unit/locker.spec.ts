@@ -0,0 +1,89 @@
+import "src/utils/extensions/array.extensions";
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { MemoryCacheBackend } from "src/common/caching/memory.cache.backend";
+import { DistributedLockService } from "src/common/locking/distributed.lock.service";
+import { LockScope } from "src/common/locking/entities/lock.scope";
+import { MetricsService } from "src/common/metrics/metrics.service";
+import { Locker } from "src/utils/locker";
+
+describe('Locker', () => {
+  const apiConfigService = {
+    getLockerScope: () => LockScope.cluster,
+    getLockerLeaseDurationInMilliseconds: () => 30000,
+    getCacheNamespace: () => 'devnet',
+  } as ApiConfigService;
+
+  const metricsService = {
+    setLockOwnership: jest.fn(),
+    incrementLockAcquisition: jest.fn(),
+  } as unknown as MetricsService;
+
+  const cacheBackend = new MemoryCacheBackend();
+  const distributedLockService = new DistributedLockService(apiConfigService, cacheBackend, metricsService);
+  const otherInstanceLockService = new DistributedLockService(apiConfigService, cacheBackend, metricsService);
+
+  beforeAll(() => {
+    distributedLockService.onModuleInit();
+  });
+
+  beforeEach(async () => {
+    await cacheBackend.flushDb();
+  });
+
+  it('should not run the function when the lease is held by another instance', async () => {
+    let otherInstanceLease = await otherInstanceLockService.acquire('job');
+    expect(otherInstanceLease).toBeDefined();
+
+    let func = jest.fn();
+    await Locker.lock('job', func);
+
+    expect(func).not.toHaveBeenCalled();
+    expect(metricsService.incrementLockAcquisition).toHaveBeenCalledWith('job', 'busy');
+
+    await otherInstanceLockService.release(otherInstanceLease!);
+  });
+
+  it('should run the function with a lease and release it afterwards', async () => {
+    let fencingTokens: number[] = [];
+
+    await Locker.lock('job', async (lease) => {
+      fencingTokens.push(lease!.fencingToken);
+    });
+
+    await Locker.lock('job', async (lease) => {
+      fencingTokens.push(lease!.fencingToken);
+    });
+
+    expect(fencingTokens).toEqual([ 1, 2 ]);
+
+    let otherInstanceLease = await otherInstanceLockService.acquire('job');
+    expect(otherInstanceLease?.fencingToken).toEqual(3);
+
+    await otherInstanceLockService.release(otherInstanceLease!);
+  });
+
+  it('should not let an instance take over a lease it still holds', async () => {
+    let lease = await distributedLockService.acquire('job');
+
+    expect(await distributedLockService.acquire('job')).toBeUndefined();
+
+    await distributedLockService.release(lease!);
+  });
+
+  it('should reject stale fencing tokens and keep the lease of the latest holder on release', async () => {
+    let staleLease = await distributedLockService.acquire('job');
+
+    // the lease expires before it could be renewed, so another instance takes it over
+    await cacheBackend.del('devnet:lock:job');
+    let latestLease = await otherInstanceLockService.acquire('job');
+
+    await expect(distributedLockService.validateFencingToken(staleLease!)).rejects.toThrow('Stale fencing token 1');
+    await expect(otherInstanceLockService.validateFencingToken(latestLease!)).resolves.toBeUndefined();
+
+    await distributedLockService.release(staleLease!);
+    expect(await cacheBackend.get('devnet:lock:job')).toEqual(latestLease!.owner);
+
+    await otherInstanceLockService.release(latestLease!);
+    expect(await cacheBackend.get('devnet:lock:job')).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { MemoryCacheBackend } from "src/common/caching/memory.cache.backend";
+
+describe('Memory Cache Backend', () => {
+  const backend = new MemoryCacheBackend();
+
+  beforeEach(async () => {
+    await backend.flushDb();
+  });
+
+  it('should get and set values with ttl', async () => {
+    await backend.set('a', 'value', 60);
+
+    expect(await backend.get('a')).toEqual('value');
+    expect(await backend.get('b')).toBeNull();
+    expect(await backend.mget([ 'a', 'b' ])).toEqual([ 'value', null ]);
+
+    let [ ttl ] = await backend.multi([ [ 'ttl', 'a' ] ]);
+    expect(ttl).toEqual(60);
+  });
+
+  it('should not return expired values', async () => {
+    await backend.set('a', 'value', 0);
+
+    expect(await backend.get('a')).toBeNull();
+  });
+
+  it('should execute multi commands in order', async () => {
+    let results = await backend.multi([
+      [ 'set', 'a', 'value', 'ex', 60 ],
+      [ 'sadd', 'tag:x', 'a', 'b' ],
+      [ 'sadd', 'tag:x', 'b', 'c' ],
+      [ 'smembers', 'tag:x' ],
+      [ 'ttl', 'tag:x' ],
+      [ 'del', 'a', 'tag:x' ],
+      [ 'get', 'a' ],
+    ]);
+
+    expect(results).toEqual([ 'OK', 2, 1, [ 'a', 'b', 'c' ], -1, 2, null ]);
+  });
+
+  it('should scan keys matching a pattern using a cursor', async () => {
+    for (let index = 0; index < 10; index++) {
+      await backend.set(`key:${index}`, 'value', 60);
+    }
+    await backend.set('other', 'value', 60);
+
+    let keys: string[] = [];
+    let cursor = '0';
+
+    do {
+      let [ nextCursor, batch ] = await backend.scan(cursor, 'key:*', 3);
+      keys.push(...batch);
+      cursor = nextCursor;
+    } while (cursor !== '0');
+
+    expect(keys.sort()).toEqual([...Array(10).keys()].map(index => `key:${index}`));
+  });
+});
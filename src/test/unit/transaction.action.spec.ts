@@ -0,0 +1,110 @@
+import { ApiConfigService } from "src/common/api-config/api.config.service";
+import { EsdtService } from "src/endpoints/esdt/esdt.service";
+import { TokenType } from "src/endpoints/tokens/entities/token.type";
+import { Transaction } from "src/endpoints/transactions/entities/transaction";
+import { TransactionActionCategory } from "src/endpoints/transactions/entities/transaction.action.category";
+import { TransactionActionService } from "src/endpoints/transactions/transaction.action.service";
+import { AddressUtils } from "src/utils/address.utils";
+import { BinaryUtils } from "src/utils/binary.utils";
+import { UsernameUtils } from "src/utils/username.utils";
+
+describe('Transaction Action Service', () => {
+  const alice = 'erd1qyu5wthldzr8wx5c9ucg8kjagg0jfs53s8nr3zpz3hypefsdd8ssycr6th';
+  const bob = 'erd1spyavw0956vq68xj8y4tenjpq2wd5a9p2c6j8gsz7ztyrnpxrruqzu66jx';
+  const provider = 'erd1qqqqqqqqqqqqqpgqxwakt2g7u9atsnr03gqcgmhcv38pt7mkd94q6shuwt';
+  const esdtContract = 'erd1qqqqqqqqqqqqqqqpqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqzllls8a5w6u';
+
+  const apiConfigService = {
+    getStakingContractAddress: () => 'erd1qqqqqqqqqqqqqqqpqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqllls0lczs7',
+    getEsdtContractAddress: () => esdtContract,
+  } as ApiConfigService;
+
+  const esdtService = {
+    getEsdtTokenProperties: async (identifier: string) => {
+      switch (identifier) {
+        case 'WEGLD-bd4d79':
+          return { type: TokenType.FungibleESDT, decimals: 18 };
+        case 'APES-efa5e3':
+          return { type: TokenType.NonFungibleESDT, decimals: 0 };
+        default:
+          return undefined;
+      }
+    },
+  } as unknown as EsdtService;
+
+  const service = new TransactionActionService(apiConfigService, esdtService);
+
+  const createTransaction = (sender: string, receiver: string, data: string, value: string = '0') => {
+    const transaction = new Transaction();
+    transaction.sender = sender;
+    transaction.receiver = receiver;
+    transaction.value = value;
+    transaction.data = BinaryUtils.base64Encode(data);
+
+    return transaction;
+  };
+
+  it('should decode fungible token transfers', async () => {
+    const action = await service.getTransactionAction(createTransaction(alice, bob, `ESDTTransfer@${BinaryUtils.stringToHex('WEGLD-bd4d79')}@0de0b6b3a7640000`));
+
+    expect(action?.category).toEqual(TransactionActionCategory.esdtNft);
+    expect(action?.name).toEqual('transfer');
+    expect(action?.description).toEqual(`Transfer 1 WEGLD to ${bob}`);
+    expect(action?.arguments?.transfers).toEqual([ { type: TokenType.FungibleESDT, ticker: 'WEGLD', token: 'WEGLD-bd4d79', value: '1000000000000000000', decimals: 18 } ]);
+  });
+
+  it('should decode the receiver and the function call of nft transfers', async () => {
+    const data = `ESDTNFTTransfer@${BinaryUtils.stringToHex('APES-efa5e3')}@01@01@${AddressUtils.bech32Decode(provider)}@${BinaryUtils.stringToHex('stake')}`;
+    const action = await service.getTransactionAction(createTransaction(alice, alice, data));
+
+    expect(action?.description).toEqual(`Transfer 1 APES-efa5e3-01 to ${provider}`);
+    expect(action?.arguments?.receiver).toEqual(provider);
+    expect(action?.arguments?.functionName).toEqual('stake');
+    expect(action?.arguments?.transfers?.[0].collection).toEqual('APES-efa5e3');
+  });
+
+  it('should decode multi transfers', async () => {
+    const data = `MultiESDTNFTTransfer@${AddressUtils.bech32Decode(bob)}@02@${BinaryUtils.stringToHex('WEGLD-bd4d79')}@@06f05b59d3b20000@${BinaryUtils.stringToHex('APES-efa5e3')}@0a@01`;
+    const action = await service.getTransactionAction(createTransaction(alice, alice, data));
+
+    expect(action?.name).toEqual('multiTransfer');
+    expect(action?.description).toEqual(`Transfer 0.5 WEGLD, 1 APES-efa5e3-0a to ${bob}`);
+  });
+
+  it('should decode delegation calls', async () => {
+    const delegate = await service.getTransactionAction(createTransaction(alice, provider, 'delegate', '10000000000000000000'));
+    expect(delegate?.category).toEqual(TransactionActionCategory.delegation);
+    expect(delegate?.description).toEqual(`Delegate 10 EGLD to staking provider ${provider}`);
+
+    const unDelegate = await service.getTransactionAction(createTransaction(alice, provider, 'unDelegate@0de0b6b3a7640000'));
+    expect(unDelegate?.arguments).toStrictEqual({ provider, value: '1000000000000000000', decimals: 18 });
+  });
+
+  it('should decode esdt management calls', async () => {
+    const issue = await service.getTransactionAction(createTransaction(alice, esdtContract, `issue@${BinaryUtils.stringToHex('Wrapped')}@${BinaryUtils.stringToHex('WRP')}@03e8@12`));
+    expect(issue?.category).toEqual(TransactionActionCategory.esdt);
+    expect(issue?.arguments).toStrictEqual({ name: 'Wrapped', ticker: 'WRP', supply: '1000', decimals: 18 });
+
+    const setRole = await service.getTransactionAction(createTransaction(alice, esdtContract, `setSpecialRole@${BinaryUtils.stringToHex('APES-efa5e3')}@${AddressUtils.bech32Decode(bob)}@${BinaryUtils.stringToHex('ESDTRoleNFTCreate')}`));
+    expect(setRole?.description).toEqual(`Set roles ESDTRoleNFTCreate for ${bob} on APES-efa5e3`);
+  });
+
+  it('should decode dns registrations and smart contract deployments', async () => {
+    const dnsContract = UsernameUtils.getContractAddress('alice');
+    const register = await service.getTransactionAction(createTransaction(alice, dnsContract, `register@${BinaryUtils.stringToHex('alice.elrond')}`));
+    expect(register?.category).toEqual(TransactionActionCategory.dns);
+    expect(register?.arguments).toStrictEqual({ username: 'alice.elrond' });
+
+    const deploy = await service.getTransactionAction(createTransaction(alice, 'erd1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq6gq4hu', '0061736d@0500@0506'));
+    expect(deploy?.name).toEqual('deploy');
+    expect(deploy?.arguments).toStrictEqual({ vmType: '0500', codeMetadata: '0506' });
+  });
+
+  it('should not decode unknown calls', async () => {
+    expect(await service.getTransactionAction(createTransaction(alice, bob, 'hello'))).toBeUndefined();
+    expect(await service.getTransactionAction(createTransaction(alice, provider, 'swapTokensFixedInput@01'))).toBeUndefined();
+
+    // only the dns contracts register usernames
+    expect(await service.getTransactionAction(createTransaction(alice, provider, `register@${BinaryUtils.stringToHex('alice.elrond')}`))).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import { UrlSelectionStrategy } from "src/common/network/entities/url.selection.strategy";
+import { UrlPool } from "src/common/network/url.pool";
+
+describe('Url Pool', () => {
+  it('should rotate through healthy urls', () => {
+    const pool = new UrlPool([ 'a', 'b', 'c' ]);
+    pool.setHealthy('b', false);
+
+    expect([ pool.select(), pool.select(), pool.select(), pool.select() ]).toStrictEqual([ 'a', 'c', 'a', 'c' ]);
+  });
+
+  it('should prefer the url with the lowest latency', () => {
+    const pool = new UrlPool([ 'a', 'b' ], UrlSelectionStrategy.leastLatency);
+    pool.markSuccess('a', 100);
+    pool.markSuccess('b', 10);
+
+    expect(pool.select()).toEqual('b');
+  });
+
+  it('should fall back to unhealthy urls when no healthy url is left', () => {
+    const pool = new UrlPool([ 'a' ]);
+    pool.setHealthy('a', false);
+
+    expect(pool.select()).toEqual('a');
+  });
+
+  it('should retry retryable errors on another url', async () => {
+    const pool = new UrlPool([ 'a', 'b' ], UrlSelectionStrategy.roundRobin, 2);
+
+    const result = await pool.execute(async url => {
+      if (url === 'a') {
+        throw new Error('Connection refused');
+      }
+
+      return url;
+    });
+
+    expect(result).toEqual('b');
+    expect(pool.getNodes().find(node => node.url === 'a')?.isHealthy).toBeFalsy();
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    const pool = new UrlPool([ 'a', 'b' ], UrlSelectionStrategy.roundRobin, 2);
+    const request = jest.fn(async () => { throw new Error('Bad request'); });
+
+    await expect(pool.execute(request, () => false)).rejects.toThrow('Bad request');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry on the same url when backing off', async () => {
+    const pool = new UrlPool([ 'a' ], UrlSelectionStrategy.roundRobin, 3, 1);
+    let attempts = 0;
+
+    const result = await pool.execute(async url => {
+      if (++attempts < 3) {
+        throw new Error('Connection refused');
+      }
+
+      return url;
+    });
+
+    expect(result).toEqual('a');
+    expect(attempts).toEqual(3);
+  });
+});
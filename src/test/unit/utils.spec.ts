@@ -1,6 +1,9 @@
+import "src/utils/extensions/array.extensions";
 import { ShardTransaction } from "@elrondnetwork/transaction-processor";
 import { AddressUtils } from "src/utils/address.utils";
+import { FieldsUtils } from "src/utils/fields.utils";
 import { MatchUtils } from "src/utils/match.utils";
+import { RetryUtils } from "src/utils/retry.utils";
 import { TransactionUtils } from "src/utils/transaction.utils";
 
 describe('API utils', () => { 
@@ -18,6 +21,24 @@ describe('API utils', () => {
     });
   });
 
+  describe('Fields Utils', () => {
+    it('everything is requested when no fields are given', () => {
+      expect(FieldsUtils.isRequested(undefined, 'logs')).toBeTruthy();
+      expect(FieldsUtils.isRequested([], 'logs')).toBeTruthy();
+      expect(FieldsUtils.isRequested(['txHash', 'receipt'], 'logs', 'operations')).toBeFalsy();
+      expect(FieldsUtils.isRequested(['txHash', 'operations'], 'logs', 'operations')).toBeTruthy();
+    });
+
+    it('maps response fields onto source includes', () => {
+      const mapping = { txHash: [], tokenValue: ['data', 'tokens'], tokenIdentifier: ['data', 'tokens'] };
+
+      expect(FieldsUtils.getSourceIncludes(undefined, mapping)).toBeUndefined();
+      expect(FieldsUtils.getSourceIncludes(['txHash', 'sender'], mapping)).toStrictEqual(['sender']);
+      expect(FieldsUtils.getSourceIncludes(['txHash'], mapping)).toStrictEqual([]);
+      expect(FieldsUtils.getSourceIncludes(['tokenValue', 'tokenIdentifier'], mapping, ['identifier'])).toStrictEqual(['identifier', 'data', 'tokens']);
+    });
+  });
+
   describe('Transaction Utils', () => {
     it('tryExtractCollectionIdentifierFromChangeSftToMetaEsdTransaction', () => {
       let transaction = new ShardTransaction();
@@ -78,4 +99,15 @@ describe('API utils', () => {
       expect(match).toBeNull();
     })
   })
-});
\ No newline at end of file
+
+  describe('Retry Utils', () => {
+    it('getBackoffDelay', () => {
+      for (let attempt = 1; attempt <= 4; attempt++) {
+        const delay = RetryUtils.getBackoffDelay(100, attempt);
+
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThan(100 * Math.pow(2, attempt - 1));
+      }
+    })
+  })
+});
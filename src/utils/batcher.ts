@@ -0,0 +1,73 @@
+interface BatchItem<TRequest, TResult> {
+  request: TRequest;
+  resolve: (result: TResult) => void;
+  reject: (error: any) => void;
+}
+
+export class Batcher<TRequest, TResult> {
+  private queue: BatchItem<TRequest, TResult>[] = [];
+
+  // the dispatcher returns one result per request, in the same order; an Error result only fails its own request
+  constructor(
+    private readonly dispatcher: (requests: TRequest[]) => Promise<(TResult | Error)[]>,
+    private readonly maxBatchSize: number = 100,
+  ) {}
+
+  load(request: TRequest): Promise<TResult> {
+    return new Promise<TResult>((resolve, reject) => {
+      this.queue.push({ request, resolve, reject });
+
+      if (this.queue.length === 1) {
+        // letting the already resolved promises run first allows async callers of the same tick to join the batch
+        Promise.resolve().then(() => process.nextTick(async () => await this.dispatch()));
+      }
+    });
+  }
+
+  private async dispatch(): Promise<void> {
+    let queue = this.queue;
+    this.queue = [];
+
+    let batches = [];
+    for (let index = 0; index < queue.length; index += this.maxBatchSize) {
+      batches.push(queue.slice(index, index + this.maxBatchSize));
+    }
+
+    await Promise.all(batches.map(async batch => {
+      try {
+        let results = await this.dispatcher(batch.map(item => item.request));
+
+        for (let [index, item] of batch.entries()) {
+          let result = results[index];
+          if (result instanceof Error) {
+            item.reject(result);
+          } else {
+            item.resolve(result);
+          }
+        }
+      } catch (error) {
+        if (batch.length === 1) {
+          batch[0].reject(error);
+          return;
+        }
+
+        // the batch is merged from unrelated callers, so the failure of the whole batch is retried one request at a time
+        // to keep a single faulty request (e.g. one that times out or is too large) from failing the others
+        await Promise.all(batch.map(async item => await this.dispatchOne(item)));
+      }
+    }));
+  }
+
+  private async dispatchOne(item: BatchItem<TRequest, TResult>): Promise<void> {
+    try {
+      let [ result ] = await this.dispatcher([ item.request ]);
+      if (result instanceof Error) {
+        item.reject(result);
+      } else {
+        item.resolve(result);
+      }
+    } catch (error) {
+      item.reject(error);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+export class CursorUtils {
+  static encode(values: any[]): string {
+    return Buffer.from(JSON.stringify(values)).toString('base64');
+  }
+
+  static decode(cursor: string): any[] | undefined {
+    try {
+      let values = JSON.parse(Buffer.from(cursor, 'base64').toString());
+      if (!Array.isArray(values) || values.length === 0) {
+        return undefined;
+      }
+
+      return values;
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+export class FieldsUtils {
+  static isRequested(fields: string[] | undefined, ...names: string[]): boolean {
+    if (!fields || fields.length === 0) {
+      return true;
+    }
+
+    return names.some(name => fields.includes(name));
+  }
+
+  // response fields are assumed to be stored under the same name unless the mapping says otherwise;
+  // undefined means that the whole document has to be fetched, while an empty result means that none of its source is needed
+  static getSourceIncludes(fields: string[] | undefined, mapping: { [field: string]: string[] }, required: string[] = []): string[] | undefined {
+    if (!fields || fields.length === 0) {
+      return undefined;
+    }
+
+    let includes: string[] = [...required];
+    for (let field of fields) {
+      includes.push(...(mapping[field] ?? [field]));
+    }
+
+    return includes.distinct();
+  }
+}
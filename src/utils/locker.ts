@@ -1,10 +1,18 @@
 import { Logger } from "@nestjs/common";
+import { DistributedLockService } from "src/common/locking/distributed.lock.service";
+import { LockLease } from "src/common/locking/entities/lock.lease";
 import { PerformanceProfiler } from "./performance.profiler";
 
 export class Locker {
   private static lockArray: string[] = [];
 
-  static async lock(key: string, func: () => Promise<void>, log: boolean = false) {
+  private static distributedLockService: DistributedLockService | undefined;
+
+  static setDistributedLockService(distributedLockService: DistributedLockService) {
+    Locker.distributedLockService = distributedLockService;
+  }
+
+  static async lock(key: string, func: (lease?: LockLease) => Promise<void>, log: boolean = false) {
     let logger = new Logger('Lock');
 
     if (Locker.lockArray.includes(key)) {
@@ -15,15 +23,35 @@ export class Locker {
     Locker.lockArray.push(key);
 
     let profiler = new PerformanceProfiler();
+    let lease: LockLease | undefined;
+    let isRunning = false;
 
     try {
-      await func();
+      if (Locker.distributedLockService) {
+        lease = await Locker.distributedLockService.acquire(key);
+        if (!lease) {
+          if (log) {
+            logger.log(`${key} is already running on another instance`);
+          }
+          return;
+        }
+      }
+
+      isRunning = true;
+      await func(lease);
     } catch (error) {
       logger.error(`Error running ${key}`);
       logger.error(error);
     } finally {
-      profiler.stop(`Running ${key}`, log);
+      if (lease) {
+        await Locker.distributedLockService?.release(lease);
+      }
+
+      if (isRunning) {
+        profiler.stop(`Running ${key}`, log);
+      }
+
       Locker.lockArray.remove(key);
     }
   }
-}
\ No newline at end of file
+}
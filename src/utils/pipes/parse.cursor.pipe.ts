@@ -0,0 +1,18 @@
+import { ArgumentMetadata, HttpException, HttpStatus, PipeTransform } from "@nestjs/common";
+import { CursorUtils } from "../cursor.utils";
+
+export class ParseCursorPipe implements PipeTransform<string | undefined, Promise<string | undefined>> {
+  transform(value: string | undefined, _: ArgumentMetadata): Promise<string | undefined> {
+    return new Promise(resolve => {
+      if (value === undefined || value === '') {
+        return resolve(undefined);
+      }
+
+      if (CursorUtils.decode(value) === undefined) {
+        throw new HttpException('Validation failed (a cursor returned by a previous page is expected)', HttpStatus.BAD_REQUEST);
+      }
+
+      return resolve(value);
+    });
+  }
+}
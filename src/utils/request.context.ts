@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// holds values that live as long as the request being served, such as the batchers that may only merge
+// the calls issued on behalf of the same request
+export class RequestContext {
+  private static readonly storage = new AsyncLocalStorage<Map<string, any>>();
+
+  static run<T>(callback: () => T): T {
+    return RequestContext.storage.run(new Map<string, any>(), callback);
+  }
+
+  // outside of a request (e.g. in cron jobs) nothing is shared, so every caller gets a value of its own
+  static getOrCreate<T>(key: string, factory: () => T): T {
+    let values = RequestContext.storage.getStore();
+    if (!values) {
+      return factory();
+    }
+
+    if (!values.has(key)) {
+      values.set(key, factory());
+    }
+
+    return values.get(key);
+  }
+}
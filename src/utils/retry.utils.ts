@@ -0,0 +1,12 @@
+export class RetryUtils {
+  static getBackoffDelay(baseDelay: number, attempt: number): number {
+    let delay = baseDelay * Math.pow(2, attempt - 1);
+
+    // full jitter, so that clients failing at the same time do not retry at the same time
+    return Math.floor(Math.random() * delay);
+  }
+
+  static async wait(duration: number): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, duration));
+  }
+}